@@ -1,5 +1,7 @@
 import Queue from 'bull';
 import { BalanceChecker } from '../services/balanceChecker';
+import { BalanceSubscriber } from '../services/balanceSubscriber';
+import { BALANCE_SUBSCRIPTIONS } from '../settings';
 
 export class BalanceClient {
   private static instance: BalanceClient;
@@ -25,6 +27,11 @@ export class BalanceClient {
     // Add immediate first check
     await this.runBalanceCheck();
     console.log('Initial balance check completed');
+
+    if (BALANCE_SUBSCRIPTIONS) {
+      await BalanceSubscriber.getInstance().start(() => this.runExclusiveBalanceCheck());
+      console.log('Balance subscriptions started');
+    }
   }
 
   private async setupQueue(): Promise<void> {
@@ -33,19 +40,11 @@ export class BalanceClient {
 
     // Setup job processor
     this.balanceQueue.process(async (job) => {
-      if (this.isRunning) {
-        console.log('Previous balance check still running, skipping...');
-        return;
-      }
-
       try {
-        this.isRunning = true;
-        await this.runBalanceCheck();
+        await this.runExclusiveBalanceCheck();
       } catch (error) {
         console.error('Error in balance check:', error);
         throw error; // Bull will handle retry
-      } finally {
-        this.isRunning = false;
       }
     });
 
@@ -76,6 +75,25 @@ export class BalanceClient {
     });
   }
 
+  // Skips the check if a sweep is already running, whether queued, on demand or from fallback polling
+  public async runExclusiveBalanceCheck(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Previous balance check still running, skipping...');
+      return;
+    }
+
+    try {
+      this.isRunning = true;
+      await this.runBalanceCheck();
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  public isBalanceCheckRunning(): boolean {
+    return this.isRunning;
+  }
+
   private async runBalanceCheck(): Promise<void> {
     const instance = BalanceChecker.getInstance();
     await instance.checkWalletBalances();
@@ -83,6 +101,10 @@ export class BalanceClient {
 
   public async shutdown(): Promise<void> {
     console.log('Shutting down balance client...');
+    if (BALANCE_SUBSCRIPTIONS) {
+      await BalanceSubscriber.getInstance().stop();
+      console.log('Balance subscriptions stopped');
+    }
     if (this.balanceQueue) {
       await this.balanceQueue.close();
       console.log('Balance queue closed');
@@ -1,5 +1,13 @@
+import { Tweet } from 'agent-twitter-client';
 import { TweetScraper } from '../services/tweetScraper';
+import { loadSearchConfig, searchMode, searchQueries } from '../services/searchConfig';
+import { attachTokenInfo, TokenEnricher } from '../services/tokenEnricher';
+import { average, groupSignalsByToken } from '../services/tokenSignals';
+import { applyTokenRisk } from '../services/riskScorer';
+import { TokenTimeline } from '../services/tokenTimeline';
+import { MAX_RISK_SCORE } from '../settings';
 import { TweetAnalyzer, AnalyzedTweet } from '../services/tweetAnalyzer';
+import { SentimentStore, SentimentUpdate } from '../services/sentimentStore';
 import { redis } from '../redis/config';
 import Queue from 'bull';
 
@@ -88,53 +96,74 @@ export class SentimentClient {
     console.log('Starting main loop...');
 
     try {
-      const keywordGroups = {
-        primary: ['new token', 'presale', 'stealth launch'],
-        context: ['crypto', 'gem']
-      };
-      const allTweets = [];
+      // Reloaded every cycle so admin edits apply without a restart
+      const config = await loadSearchConfig();
+      const queries = searchQueries(config);
+      const fetched: Tweet[] = [];
 
       // Keyword-based tweet searching
-      console.log('Searching tweets by keywords...');
-      const searchPromises = keywordGroups.primary.flatMap(primary => 
-        keywordGroups.context.map(context => 
-          this.tweetScraper.searchTweets(`${primary} ${context}`, 3)
-        )
+      console.log(`Searching tweets for ${queries.length} queries...`);
+      const searchPromises = queries.map(query =>
+        this.tweetScraper.searchTweets(query, config.tweetsPerQuery, searchMode(config))
       );
-      console.log('Searching tweets by keywords...');
       const searchResults = await Promise.all(searchPromises);
-      allTweets.push(...searchResults.flat());
+      fetched.push(...searchResults.flat());
+
+      // Watched account timelines
+      console.log(`Fetching tweets of ${config.watchedAccounts.length} watched accounts...`);
+      const timelineResults = await Promise.all(config.watchedAccounts.map(account =>
+        (account.includeReplies
+          ? this.tweetScraper.getTweetsAndReplies(account.username, account.count)
+          : this.tweetScraper.getTweets(account.username, account.count)
+        ).catch(error => {
+          console.error(`Error fetching tweets of @${account.username}:`, error);
+          return [] as Tweet[];
+        })
+      ));
+      fetched.push(...timelineResults.flat());
+
+      // A tweet can match several queries
+      const allTweets = [...new Map(fetched.map(tweet => [tweet.id, tweet])).values()];
       
       console.log(`Retrieved ${allTweets.length} tweets total`);
 
       const analyzedTweets = await this.tweetAnalyzer.analyzeTweets(allTweets);
       console.log(`Analyzed ${analyzedTweets.length} tweets`);
       //console.log('Analyzed tweets:', analyzedTweets);
-      const significantTweets = analyzedTweets.filter(tweet => 
-        tweet.analysis.score > 0.5 && 
-        tweet.analysis.credibilityScore > 0.32
-      );
+      // Every mint is enriched, so each tweet carries its token info; the cache bounds the RPC calls
+      const tokenInfos = await TokenEnricher.getInstance().enrichMany(analyzedTweets.flatMap(tweet => tweet.tokens.mints));
+      const significantTweets = analyzedTweets
+        .map(tweet => applyTokenRisk(attachTokenInfo(tweet, tokenInfos), tokenInfos))
+        .filter(tweet =>
+          tweet.analysis.score > 0.5 &&
+          tweet.analysis.credibilityScore > 0.32 &&
+          (tweet.analysis.riskScore ?? 0) <= MAX_RISK_SCORE
+        );
 
       console.log(`Found ${significantTweets.length} significant tweets`);
 
-      // Store in Redis and publish update
-      await redis.publish('sentiment:updates', JSON.stringify({
+      const tokens = groupSignalsByToken(significantTweets, tokenInfos);
+      console.log(`Found ${tokens.length} tokens mentioned (${tokenInfos.size} mints enriched)`);
+
+      const update: SentimentUpdate = {
         timestamp: Date.now(),
         metadata: {
           totalTweetsAnalyzed: allTweets.length,
           significantTweetsCount: significantTweets.length,
-          targetAccounts: keywordGroups,
+          targetAccounts: config.watchedAccounts.map(account => account.username),
+          queries,
           batchId: Date.now().toString(),
         },
         statistics: {
-          averageScore: significantTweets.reduce((acc, t) => acc + t.analysis.score, 0) / significantTweets.length,
-          averageCredibility: significantTweets.reduce((acc, t) => acc + t.analysis.credibilityScore, 0) / significantTweets.length,
+          averageScore: average(significantTweets.map(t => t.analysis.score)),
+          averageCredibility: average(significantTweets.map(t => t.analysis.credibilityScore)),
           sentimentDistribution: significantTweets.reduce((acc, t) => {
             acc[t.analysis.sentiment] = (acc[t.analysis.sentiment] || 0) + 1;
             return acc;
           }, {} as Record<string, number>),
           topTopics: this.getTopTopics(significantTweets),
         },
+        tokens,
         tweets: significantTweets.map(tweet => ({
           ...tweet,
           engagement: {
@@ -145,8 +174,25 @@ export class SentimentClient {
             bookmarks: tweet.bookmarkCount || 0
           }
         }))
-      }));
+      };
+
+      // Persist first so the batch is queryable by the time subscribers hear of it
+      try {
+        await SentimentStore.getInstance().saveBatch(update);
+      } catch (error) {
+        console.error('Error saving sentiment batch:', error);
+      }
+
+      try {
+        const accelerating = await TokenTimeline.getInstance().recordBatch(update);
+        accelerating.forEach(window => console.log(
+          `Token ${window.key} is heating up: ${window.mentions} mentions vs ${window.previousMentions} in the previous window`
+        ));
+      } catch (error) {
+        console.error('Error updating token timeline:', error);
+      }
 
+      await redis.publish('sentiment:updates', JSON.stringify(update));
      
     } catch (error) {
       console.error('Error in main loop:', error);
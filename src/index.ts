@@ -3,15 +3,26 @@ import dotenv from 'dotenv';
 import mongoose from 'mongoose'; 
 import User from './models/User'; 
 import cors from 'cors';
-import { web3Auth, authorizedPk } from './middleware/web3Auth';
-import { RedisClient } from './redis/config';
+import { web3Auth, authorizedPk, authorizedNonce } from './middleware/web3Auth';
+import { telegramAuth, authorizedTelegramUser } from './middleware/telegramAuth';
 import { BalanceChecker } from './services/balanceChecker';
+import { loadGatingRules, telegramChatIdForTier } from './services/gatingEvaluator';
+import { InviteManager } from './services/inviteManager';
+import { WalletInUseError, WalletRegistry } from './services/walletRegistry';
 import { SentimentClient } from './clients/sentimentClient';
 import { BalanceClient } from './clients/balanceClient';
+import { authRouter } from './routes/auth';
+import { walletsRouter } from './routes/wallets';
+import { accountRouter } from './routes/account';
+import { invitesRouter } from './routes/invites';
+import { adminRouter } from './routes/admin';
+import { sentimentRouter } from './routes/sentiment';
+import { feedRouter } from './routes/feed';
+import { SentimentFeed } from './services/sentimentFeed';
+import { TELEGRAM_CHAT_ID } from './settings';
 
 dotenv.config();
 
-const MIN_BALANCE = process.env.MIN_BALANCE || '1';
 const mongoURI = process.env.MONGODB_URI
 const port = process.env.PORT || 3000;
 
@@ -42,12 +53,20 @@ class AppServer {
         'https://www.bigbawls.lol',
         'http://localhost:8080',
       ],
-      methods: ['GET', 'POST', 'PUT'],
+      methods: ['GET', 'POST', 'PUT', 'DELETE'],
     }));
     this.app.use(express.json());
   }
 
   private setupRoutes() {
+    this.app.use('/api/auth', authRouter);
+    this.app.use('/api/wallets', walletsRouter);
+    this.app.use('/api/account', accountRouter);
+    this.app.use('/api/invites', invitesRouter);
+    this.app.use('/api/admin', adminRouter);
+    this.app.use('/api/sentiment', sentimentRouter);
+    this.app.use('/api/feed', feedRouter);
+
     this.app.post('/api/connect-wallet', 
       web3Auth({ action: 'telegram:connect-wallet', allowSkipCheck: true }),
       async (req, res) => {
@@ -58,60 +77,87 @@ class AppServer {
             return res.status(400).json({ error: 'No public key found' });
           }
 
+          // A wallet can only back one Telegram account
+          const registry = WalletRegistry.getInstance();
+          const [owner, sessionUser] = await Promise.all([
+            registry.findOwner(userPubKeyString),
+            User.findOne({ sessionId: sessionId }),
+          ]);
+          if (owner && owner.telegramUserId !== sessionUser?.telegramUserId) {
+            return res.status(409).json({ error: 'Wallet is already linked to another account' });
+          }
+
           const user = await User.findOneAndUpdate(
             { sessionId: sessionId },
-            { walletAddress: userPubKeyString, signature: signature },
+            { walletAddress: userPubKeyString, signature: signature, nonce: authorizedNonce(res) },
             { upsert: true, new: true }
           );
+          if (user.telegramUserId !== undefined) {
+            await registry.setPrimary(user, userPubKeyString);
+          }
 
-          const { balance, hasMinBalance } = await BalanceChecker.getInstance()
-            .checkSingleWalletBalance(userPubKeyString);
-
-          user.tokenBalance = balance.toString();
-          user.hasRequiredBalance = hasMinBalance;
-          user.lastChecked = new Date();
-          await user.save();
-
-          await RedisClient.getInstance().hset(
-            'telegram:permission-updates',
-            user.telegramUserId,
-            JSON.stringify({
-              hasRequiredBalance: hasMinBalance,
-              timestamp: Date.now()
-            })
-          );
+          // Same path as the sweep, so admin overrides and the revocation policy apply
+          const rules = await loadGatingRules();
+          await BalanceChecker.getInstance().recheckUser(user, 'connect', rules);
+          const { tier, tokenBalance: balance } = user;
+          const telegramChatId = telegramChatIdForTier(tier, rules);
 
-          if (!hasMinBalance) {
+          if (!user.hasRequiredBalance) {
             return res.status(403).json({
               error: 'Insufficient token balance',
               balance,
-              required: MIN_BALANCE
+              holdings: {
+                tokens: Object.fromEntries(user.holdings ?? []),
+                collections: Object.fromEntries(user.nftHoldings ?? []),
+              },
+              required: rules.map(({ tier, operator, conditions }) => ({ tier, operator, conditions }))
             });
           }
 
+          // Mint a one-time invite for the tier's group; fall back to the link from start-check
+          const chatId = telegramChatId ?? TELEGRAM_CHAT_ID;
+          const invite = chatId && user.telegramUserId !== undefined
+            ? await InviteManager.getInstance().issue(user, chatId)
+            : null;
+
           res.status(200).json({ 
             message: 'Wallet connected successfully', 
             user,
             balance,
             hasRequiredBalance: true,
-            inviteUrl: user.inviteUrl
+            tier,
+            inviteUrl: invite?.inviteLink ?? user.inviteUrl,
+            inviteExpiresAt: invite?.expiresAt
           });
 
         } catch (error) {
+          if (error instanceof WalletInUseError) {
+            return res.status(409).json({ error: 'Wallet is already linked to another account' });
+          }
           console.error("Error handling wallet connection:", error);
           res.status(500).send("Internal Server Error");
         }
       }
     );
 
-    this.app.post('/api/start-check', async (req, res) => {
+    /**
+     * Called from the Telegram Mini App. The Telegram user is taken from the
+     * verified `initData`, never from the request body.
+     */
+    this.app.post('/api/start-check', telegramAuth(), async (req, res) => {
       try {
-        const { sessionId, inviteUrl, telegramId } = req.body;
-        console.log('start check', req.body);
-        if (!sessionId || !inviteUrl || !telegramId) { 
+        const { sessionId, inviteUrl } = req.body;
+        const telegramId = authorizedTelegramUser(res).id;
+        if (!sessionId || !inviteUrl) { 
           return res.status(400).json({ error: 'Invalid request' }); 
         }
 
+        // Sessions created by connect-wallet have no Telegram user until this call
+        const sessionOwner = await User.findOne({ sessionId });
+        if (sessionOwner?.telegramUserId != null && sessionOwner.telegramUserId !== telegramId) {
+          return res.status(409).json({ error: 'Session belongs to another Telegram user' });
+        }
+
         // First try to find by telegramUserId
         let user = await User.findOne({ telegramUserId: telegramId });
         
@@ -132,9 +178,17 @@ class AppServer {
           );
         }
 
+        // The wallet connected before the Telegram user was known is only now registered
+        if (user.walletAddress) {
+          await WalletRegistry.getInstance().setPrimary(user, user.walletAddress);
+        }
+
         res.status(200).json({ message: 'Check started successfully', user });
 
       } catch (error) {
+        if (error instanceof WalletInUseError) {
+          return res.status(409).json({ error: 'Wallet is already linked to another account' });
+        }
         console.error("Error handling check start:", error);
         res.status(500).send("Internal Server Error");
       }
@@ -160,9 +214,13 @@ class AppServer {
       console.log('SentimentClient initialized');
 
       // Finally start the server
-      this.app.listen(port, () => {
+      const server = this.app.listen(port, () => {
         console.log(`Server is running on port ${port}`);
       });
+
+      // Live feed shares the HTTP server for WebSocket upgrades
+      await SentimentFeed.getInstance().start(server);
+      console.log('SentimentFeed started');
     } catch (err) {
       console.error('Failed to start server:', err);
       process.exit(1);
@@ -0,0 +1,78 @@
+import { Request, Response, RequestHandler } from 'express';
+import { IUser } from '../models/User';
+import { SessionManager } from '../services/sessionManager';
+import { WalletRegistry } from '../services/walletRegistry';
+import { verifyAuthToken, Web3AuthError } from './web3Auth';
+
+/** Raised when a request does not come from a current token holder. */
+export class HolderAuthError extends Error {
+  constructor(message: string, readonly status: number = 401) {
+    super(message);
+  }
+}
+
+/**
+ * Reads the credential of a feed request: `Authorization: Bearer <token>`,
+ * or the `access_token` query parameter for clients that cannot set
+ * headers, such as `EventSource` and browser WebSockets.
+ */
+export function feedToken(req: Request): string | undefined {
+  const authHeader = req.header('Authorization');
+  if (authHeader) {
+    return authHeader.split(' ')[1];
+  }
+  return typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+}
+
+/**
+ * Resolves the wallet behind a session access token or, failing that, a
+ * `pk.msg.sig` token for `action`, and checks that its account currently
+ * holds the required balance. Throws `HolderAuthError` otherwise.
+ */
+export async function authenticateHolder(
+  token: string | undefined,
+  action: string,
+): Promise<{ publicKey: string; user: IUser }> {
+  if (!token) {
+    throw new HolderAuthError('Missing access token');
+  }
+
+  let publicKey: string;
+  try {
+    const claims = await SessionManager.getInstance().verify(token).catch(() => null);
+    publicKey = claims?.sub ?? (await verifyAuthToken(token, { action })).publicKey;
+  } catch (error) {
+    if (error instanceof Web3AuthError) {
+      throw new HolderAuthError(error.message);
+    }
+    throw error;
+  }
+
+  const user = await WalletRegistry.getInstance().findOwner(publicKey);
+  if (!user?.hasRequiredBalance) {
+    throw new HolderAuthError('Token holder access required', 403);
+  }
+
+  return { publicKey, user };
+}
+
+/**
+ * Lets only current token holders through, authenticated with a session or
+ * a signed token for `action`. The wallet is exposed through `authorizedPk`.
+ */
+export const holderAuth = (action: string): RequestHandler => async (req, res, next) => {
+  try {
+    const { publicKey, user } = await authenticateHolder(feedToken(req), action);
+    res.locals.pubKey = publicKey;
+    res.locals.holder = user;
+    next();
+  } catch (error) {
+    if (error instanceof HolderAuthError) {
+      res.status(error.status).send({ error: { message: error.message } });
+      return;
+    }
+    next(error);
+  }
+};
+
+export const authorizedHolder = (res: Response) => res.locals.holder as IUser;
@@ -0,0 +1,36 @@
+import { Response, RequestHandler } from 'express';
+import { SessionManager } from '../services/sessionManager';
+
+/**
+ * Authenticates a request with a session access token issued by
+ * `POST /api/auth/session`, using the header
+ * `Authorization: Bearer <accessToken>`.
+ * On success the wallet is exposed through `authorizedPk`, so routes can use
+ * this middleware in place of `web3Auth` without further changes.
+ */
+export const sessionAuth = (): RequestHandler => async (req, res, next) => {
+  const authHeader = req.header('Authorization');
+
+  if (!authHeader) {
+    res.status(401).send({ error: { message: 'Missing Authorization header' } });
+    return;
+  }
+
+  const [, accessToken] = authHeader.split(' ');
+
+  try {
+    const claims = await SessionManager.getInstance().verify(accessToken);
+    if (!claims) {
+      res.status(401).send({ error: { message: 'Invalid or expired session' } });
+      return;
+    }
+
+    res.locals.pubKey = claims.sub;
+    res.locals.sessionId = claims.sid;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const authorizedSession = (res: Response) => res.locals.sessionId as string;
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { TelegramAuthError, verifyInitData } from './telegramAuth';
+
+const BOT_TOKEN = '123456:test-bot-token';
+const NOW = 1735689600;
+
+// Builds init data the way Telegram does, signed with the test bot token
+function signInitData(fields: Record<string, string>, botToken: string = BOT_TOKEN): string {
+  const dataCheckString = Object.entries(fields)
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+  const secret = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const hash = crypto.createHmac('sha256', secret).update(dataCheckString).digest('hex');
+  return new URLSearchParams({ ...fields, hash }).toString();
+}
+
+const fields = (authDate: number = NOW - 60) => ({
+  query_id: 'AAHdF6IQAAAAAN0XohDhrOrc',
+  user: JSON.stringify({ id: 279058397, first_name: 'Degen', username: 'degen' }),
+  auth_date: String(authDate),
+});
+
+describe('verifyInitData', () => {
+  it('accepts init data signed with the bot token', () => {
+    const result = verifyInitData(signInitData(fields()), BOT_TOKEN, 3600, NOW);
+
+    expect(result.user.id).toBe(279058397);
+    expect(result.authDate).toBe(NOW - 60);
+    expect(result.queryId).toBe('AAHdF6IQAAAAAN0XohDhrOrc');
+  });
+
+  it('rejects a tampered payload', () => {
+    const params = new URLSearchParams(signInitData(fields()));
+    params.set('user', JSON.stringify({ id: 1, first_name: 'Mallory' }));
+
+    expect(() => verifyInitData(params.toString(), BOT_TOKEN, 3600, NOW))
+      .toThrow(new TelegramAuthError('Invalid init data hash'));
+  });
+
+  it('rejects data signed with another bot token', () => {
+    expect(() => verifyInitData(signInitData(fields(), '654321:other-token'), BOT_TOKEN, 3600, NOW))
+      .toThrow(new TelegramAuthError('Invalid init data hash'));
+  });
+
+  it('rejects an expired auth_date', () => {
+    expect(() => verifyInitData(signInitData(fields(NOW - 3601)), BOT_TOKEN, 3600, NOW))
+      .toThrow(new TelegramAuthError('Expired init data'));
+  });
+
+  it('rejects init data without a hash', () => {
+    expect(() => verifyInitData(new URLSearchParams(fields()).toString(), BOT_TOKEN, 3600, NOW))
+      .toThrow(new TelegramAuthError('Missing init data hash'));
+  });
+});
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { Response, RequestHandler } from 'express';
+import { DateTime } from 'luxon';
+import { TELEGRAM_BOT_TOKEN, TELEGRAM_INIT_DATA_TTL } from '../settings';
+
+/** The `user` object of Telegram WebApp init data. */
+export interface TelegramWebAppUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramInitData {
+  user: TelegramWebAppUser;
+  authDate: number;
+  queryId?: string;
+  startParam?: string;
+}
+
+/** Raised when Telegram WebApp init data fails verification. */
+export class TelegramAuthError extends Error {}
+
+/**
+ * Authenticates a request coming from the Telegram Mini App. The body must
+ * carry `initData`, the raw `Telegram.WebApp.initData` string, which is
+ * signed by Telegram with a key derived from the bot token.
+ * On success the verified user is exposed through `authorizedTelegramUser`.
+ */
+export const telegramAuth = (): RequestHandler => (req, res, next) => {
+  const { initData } = req.body;
+
+  if (!initData) {
+    res.status(401).send({ error: { message: 'Missing Telegram init data' } });
+    return;
+  }
+
+  try {
+    res.locals.telegramUser = verifyInitData(initData).user;
+  } catch (error) {
+    if (error instanceof TelegramAuthError) {
+      res.status(401).send({ error: { message: error.message } });
+      return;
+    }
+    next(error);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Verifies the `hash` of WebApp init data and that `auth_date` is no older
+ * than `maxAge` seconds. See
+ * https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ * Throws `TelegramAuthError` when the data is rejected.
+ */
+export function verifyInitData(
+  initData: string,
+  botToken: string | undefined = TELEGRAM_BOT_TOKEN,
+  maxAge: number = TELEGRAM_INIT_DATA_TTL,
+  now: number = DateTime.local().toUTC().toUnixInteger(),
+): TelegramInitData {
+  if (!botToken) {
+    throw new Error('TELEGRAM_BOT_TOKEN environment variable is required');
+  }
+
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+  if (!hash) {
+    throw new TelegramAuthError('Missing init data hash');
+  }
+  params.delete('hash');
+
+  const dataCheckString = [...params.entries()]
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+
+  const secret = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(dataCheckString).digest('hex'));
+  const actual = Buffer.from(hash);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new TelegramAuthError('Invalid init data hash');
+  }
+
+  const authDate = Number(params.get('auth_date'));
+  if (!Number.isInteger(authDate) || authDate <= 0) {
+    throw new TelegramAuthError('Invalid auth_date');
+  }
+  if (now - authDate > maxAge) {
+    throw new TelegramAuthError('Expired init data');
+  }
+
+  let user: TelegramWebAppUser;
+  try {
+    user = JSON.parse(params.get('user') ?? '');
+  } catch {
+    throw new TelegramAuthError('Malformed init data user');
+  }
+  if (!Number.isSafeInteger(user?.id)) {
+    throw new TelegramAuthError('Malformed init data user');
+  }
+
+  return {
+    user,
+    authDate,
+    queryId: params.get('query_id') ?? undefined,
+    startParam: params.get('start_param') ?? undefined,
+  };
+}
+
+export const authorizedTelegramUser = (res: Response) => res.locals.telegramUser as TelegramWebAppUser;
@@ -1,13 +1,34 @@
-const apiKey = process.env.API_KEY;
+import { Response, RequestHandler } from 'express';
+import { IApiKey } from '../models/ApiKey';
+import { ApiKeyScope, ApiKeyStore } from '../services/apiKeyStore';
 
-export function verifyApiKey(req, res, next) {
-    const key = req.headers['x-api-key']; // Expecting the key in the headers
-    if (!key) {
-      return res.status(401).json({ error: 'API key is missing' });
-    }
-    if (key !== apiKey) {
+/**
+ * Authenticates service-to-service requests with an API key sent in the
+ * `x-api-key` header. The key must carry every scope listed, e.g.
+ * `verifyApiKey('admin:users')`. Keys are managed with `scripts/apiKeys.ts`.
+ */
+export const verifyApiKey = (...scopes: ApiKeyScope[]): RequestHandler => async (req, res, next) => {
+  const key = req.headers['x-api-key']; // Expecting the key in the headers
+  if (!key) {
+    return res.status(401).json({ error: 'API key is missing' });
+  }
+
+  try {
+    const store = ApiKeyStore.getInstance();
+    const apiKey = await store.verify(String(key));
+    if (!apiKey) {
       return res.status(403).json({ error: 'Invalid API key' });
     }
+    if (!scopes.every(scope => apiKey.scopes.includes(scope))) {
+      return res.status(403).json({ error: 'API key is missing required scopes', required: scopes });
+    }
+
+    store.touch(apiKey);
+    res.locals.apiKey = apiKey;
     next();
+  } catch (error) {
+    next(error);
   }
-  
\ No newline at end of file
+};
+
+export const authorizedApiKey = (res: Response) => res.locals.apiKey as IApiKey;
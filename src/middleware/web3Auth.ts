@@ -4,6 +4,15 @@ import { Response, RequestHandler } from 'express';
 import b58 from 'bs58';
 import { TextDecoder } from 'util';
 import { DateTime } from 'luxon';
+import { AuthChallenge, AuthMessage } from '../services/authChallenge';
+import { parseSiwsMessage, siwsAction, SiwsMessage } from '../services/siws';
+import {
+  AUTH_DOMAIN,
+  AUTH_LEGACY_JSON_MESSAGES,
+  AUTH_URI,
+  SIWS_CHAIN_ID,
+  SIWS_STATEMENT,
+} from '../settings';
 
 /**
  * Configuration context that is passed to the middleware via
@@ -16,8 +25,8 @@ type Web3AuthConfigurationContext = {
    * This is used to determine the signed message is correct, and also specifies
    * a persmission from the client to perform an activity.
    * If action is `"skip"`, and the handler is configured to `allowSkipCheck = true`, then
-   * the check will be skipped, which is useful for JWT-Like authentication
-   * on several types of endpoints (Like reading).
+   * the check will be skipped. For repeated reads prefer exchanging a signature
+   * for a session token (`POST /api/auth/session`) and using `sessionAuth`.
    */
   action: string;
   /**
@@ -38,11 +47,13 @@ type Web3AuthHandlerCreator = (
  * `Authorization: Bearer pk.msg.sig`
  * Where pk is the base58-encoded public key, msg is the base58-encoded message,
  * and sig is the base58-encoded signature.
- * This middleware does not validate the lifetime of the signature or the
- * contents of the message.
+ * The signed message must be built from `GET /api/auth/challenge`: it binds
+ * the domain, action, issued-at time and a single-use nonce, so a captured
+ * token cannot be replayed. Messages are expected in the Sign-In-With-Solana
+ * format; the legacy JSON format is accepted while `AUTH_LEGACY_JSON_MESSAGES`
+ * is enabled.
  */
-export const web3Auth: Web3AuthHandlerCreator = (ctx) => (req, res, next) => {
-  const { action, allowSkipCheck } = ctx;
+export const web3Auth: Web3AuthHandlerCreator = (ctx) => async (req, res, next) => {
   const authHeader = req.header('Authorization');
 
   if (!authHeader) {
@@ -51,36 +62,145 @@ export const web3Auth: Web3AuthHandlerCreator = (ctx) => (req, res, next) => {
   }
 
   const [, authToken] = authHeader.split(' ');
-  const [pk, msg, sig] = authToken.split('.');
-  const hasValidSig = nacl.sign.detached.verify(
-    b58.decode(msg),
-    b58.decode(sig),
-    new PublicKey(pk).toBytes(),
-  );
 
-  if (!hasValidSig) {
-    res.status(401).send({ error: { message: 'Invalid signature' } });
+  try {
+    const { publicKey, nonce } = await verifyAuthToken(authToken, ctx);
+    res.locals.pubKey = publicKey;
+    res.locals.nonce = nonce;
+  } catch (error) {
+    if (error instanceof Web3AuthError) {
+      res.status(401).send({ error: { message: error.message } });
+      return;
+    }
+    next(error);
     return;
   }
 
-  const contents = JSON.parse(new TextDecoder().decode(b58.decode(msg))) as {
-    action: string;
-    exp: number;
-  };
+  next();
+};
 
-  if (DateTime.local().toUTC().toUnixInteger() > contents.exp) {
-    res.status(401).send({ error: { message: 'Expired signature' } });
-    return;
+/** Raised when a `pk.msg.sig` token fails verification. */
+export class Web3AuthError extends Error {}
+
+/**
+ * Verifies a `pk.msg.sig` token the same way `web3Auth` does and consumes
+ * its nonce. Used directly when a request carries a second signature, such
+ * as the proof of a wallet being linked. Throws `Web3AuthError` when the
+ * token is rejected.
+ */
+export async function verifyAuthToken(
+  authToken: string,
+  ctx: Web3AuthConfigurationContext,
+): Promise<{ publicKey: string; nonce: string }> {
+  const { action, allowSkipCheck } = ctx;
+  const [pk, msg, sig] = (authToken || '').split('.');
+  let hasValidSig = false;
+  try {
+    hasValidSig = nacl.sign.detached.verify(
+      b58.decode(msg),
+      b58.decode(sig),
+      new PublicKey(pk).toBytes(),
+    );
+  } catch {
+    throw new Web3AuthError('Malformed Authorization header');
+  }
+
+  if (!hasValidSig) {
+    throw new Web3AuthError('Invalid signature');
+  }
+
+  let contents: AuthMessage;
+  try {
+    contents = readAuthMessage(new TextDecoder().decode(b58.decode(msg)), pk);
+  } catch (error) {
+    throw new Web3AuthError(error.message);
+  }
+
+  if (contents.domain !== AUTH_DOMAIN) {
+    throw new Web3AuthError('Invalid domain');
+  }
+
+  const now = DateTime.local().toUTC().toUnixInteger();
+  if (now > contents.exp) {
+    throw new Web3AuthError('Expired signature');
   }
 
   const skipActionCheck = allowSkipCheck && contents.action === 'skip';
   if (!skipActionCheck && contents.action !== action) {
-    res.status(401).send({ error: { message: 'Invalid action' } });
-    return;
+    throw new Web3AuthError('Invalid action');
   }
 
-  res.locals.pubKey = pk;
-  next();
-};
+  const nonceError = await AuthChallenge.getInstance().consume(contents, pk);
+  if (nonceError) {
+    throw new Web3AuthError(nonceError);
+  }
+
+  return { publicKey: pk, nonce: contents.nonce };
+}
+
+/**
+ * Decodes the signed message into an `AuthMessage`, validating every
+ * Sign-In-With-Solana field against the server configuration.
+ */
+function readAuthMessage(text: string, pk: string): AuthMessage {
+  if (text.startsWith('{')) {
+    if (!AUTH_LEGACY_JSON_MESSAGES) {
+      throw new Error('Legacy message format is disabled');
+    }
+    try {
+      return JSON.parse(text) as AuthMessage;
+    } catch {
+      throw new Error('Malformed message');
+    }
+  }
+
+  let siws: SiwsMessage;
+  try {
+    siws = parseSiwsMessage(text);
+  } catch {
+    throw new Error('Malformed message');
+  }
+
+  if (siws.address !== pk) {
+    throw new Error('Message address does not match public key');
+  }
+  if (siws.uri !== AUTH_URI) {
+    throw new Error('Invalid URI');
+  }
+  if (siws.version !== '1') {
+    throw new Error('Unsupported message version');
+  }
+  if (siws.chainId !== SIWS_CHAIN_ID) {
+    throw new Error('Invalid chain ID');
+  }
+  if (siws.statement !== SIWS_STATEMENT) {
+    throw new Error('Invalid statement');
+  }
+
+  const issuedAt = DateTime.fromISO(siws.issuedAt ?? '', { zone: 'utc' });
+  const expiresAt = DateTime.fromISO(siws.expirationTime ?? '', { zone: 'utc' });
+  if (!issuedAt.isValid || !expiresAt.isValid) {
+    throw new Error('Invalid issued-at or expiration time');
+  }
+  if (siws.notBefore !== undefined) {
+    const notBefore = DateTime.fromISO(siws.notBefore, { zone: 'utc' });
+    if (!notBefore.isValid) {
+      throw new Error('Invalid not-before time');
+    }
+    if (notBefore > DateTime.utc()) {
+      throw new Error('Signature not yet valid');
+    }
+  }
+
+  return {
+    domain: siws.domain,
+    action: siwsAction(siws),
+    nonce: siws.nonce,
+    iat: issuedAt.toUnixInteger(),
+    exp: expiresAt.toUnixInteger(),
+  };
+}
+
+export const authorizedPk = (res: Response) => res.locals.pubKey as string;
 
-export const authorizedPk = (res: Response) => res.locals.pubKey as string;
\ No newline at end of file
+export const authorizedNonce = (res: Response) => res.locals.nonce as string;
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Define the interface for the ApiKey document
+export interface IApiKey extends Document {
+  prefix: string; // Public part of the key, used to look it up
+  hash: string; // SHA-256 of the secret part, the secret itself is never stored
+  name: string;
+  owner: string; // Person or service the key was issued to
+  scopes: string[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+}
+
+// Define the ApiKey schema
+const ApiKeySchema: Schema = new Schema({
+  prefix: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  hash: { type: String, required: true },
+  name: { type: String, required: true },
+  owner: { type: String, required: true },
+  scopes: { type: [String], default: [] },
+  expiresAt: { type: Date, default: null },
+  lastUsedAt: { type: Date, default: null },
+  revokedAt: { type: Date, default: null },
+}, { timestamps: true });
+
+// Create and export the ApiKey model
+const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+
+export default ApiKey;
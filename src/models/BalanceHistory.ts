@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BALANCE_HISTORY_RETENTION } from '../settings';
+
+export type BalanceHistorySource = 'connect' | 'sweep' | 'subscription' | 'account' | 'admin';
+export type BalanceHistoryChange = 'granted' | 'revoked' | 'tier-changed';
+
+// Define the interface for the BalanceHistory document
+export interface IBalanceHistory extends Document {
+  telegramUserId: number;
+  walletAddress?: string; // Primary wallet at the time of the reading
+  wallets: string[]; // Every wallet whose holdings were summed
+  source: BalanceHistorySource;
+  slot?: number; // Oldest RPC context slot the holdings were read at
+  balance: string;
+  holdings: Map<string, string>;
+  nftHoldings: Map<string, number>;
+  tier: string | null;
+  previousTier: string | null;
+  hasRequiredBalance: boolean;
+  change?: BalanceHistoryChange | null; // Set when the reading changed the user's permissions
+  pendingRevocation?: boolean; // A downgrade was deferred by the revocation policy
+  reason?: string; // Admin override reason
+  createdAt: Date;
+}
+
+// Define the BalanceHistory schema
+const BalanceHistorySchema: Schema = new Schema({
+  telegramUserId: { type: Number, required: true },
+  walletAddress: { type: String, required: false },
+  wallets: { type: [String], default: [] },
+  source: {
+    type: String,
+    enum: ['connect', 'sweep', 'subscription', 'account', 'admin'],
+    required: true,
+  },
+  slot: { type: Number, required: false },
+  balance: { type: String, default: '0' },
+  holdings: { type: Map, of: String, default: {} },
+  nftHoldings: { type: Map, of: Number, default: {} },
+  tier: { type: String, default: null },
+  previousTier: { type: String, default: null },
+  hasRequiredBalance: { type: Boolean, required: true },
+  change: { type: String, enum: ['granted', 'revoked', 'tier-changed', null], default: null },
+  pendingRevocation: { type: Boolean, default: false },
+  reason: { type: String, required: false },
+  createdAt: { type: Date, default: Date.now },
+});
+
+BalanceHistorySchema.index({ telegramUserId: 1, createdAt: -1 });
+// Changing the retention requires dropping this index so it is rebuilt
+BalanceHistorySchema.index({ createdAt: 1 }, { expireAfterSeconds: BALANCE_HISTORY_RETENTION });
+
+// Create and export the BalanceHistory model
+const BalanceHistory = mongoose.model<IBalanceHistory>('BalanceHistory', BalanceHistorySchema);
+
+export default BalanceHistory;
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A single holding requirement inside a rule
+export interface GatingCondition {
+  type: 'spl-token' | 'nft-collection';
+  mint?: string; // spl-token: fungible mint address
+  minBalance?: string; // spl-token: minimum UI amount, stored as string like tokenBalance
+  collection?: string; // nft-collection: verified Metaplex collection address
+  minCount?: number; // nft-collection: minimum number of NFTs held
+}
+
+// Define the interface for the GatingRule document
+export interface IGatingRule extends Document {
+  name: string;
+  tier: string; // e.g. bronze, silver, gold
+  rank: number; // Higher rank wins when several rules match
+  operator: 'any' | 'all'; // Whether one or every condition must hold
+  conditions: GatingCondition[];
+  telegramChatId?: string; // Group the tier grants access to
+  enabled: boolean;
+}
+
+const GatingConditionSchema: Schema = new Schema({
+  type: { type: String, enum: ['spl-token', 'nft-collection'], default: 'spl-token' },
+  mint: { type: String, required: false },
+  minBalance: { type: String, required: false },
+  collection: { type: String, required: false },
+  minCount: { type: Number, default: 1 },
+}, { _id: false });
+
+// Define the GatingRule schema
+const GatingRuleSchema: Schema = new Schema({
+  name: { type: String, required: true, unique: true },
+  tier: { type: String, required: true },
+  rank: { type: Number, default: 0 },
+  operator: { type: String, enum: ['any', 'all'], default: 'any' },
+  conditions: { type: [GatingConditionSchema], default: [] },
+  telegramChatId: { type: String, required: false },
+  enabled: { type: Boolean, default: true },
+}, { timestamps: true });
+
+// Create and export the GatingRule model
+const GatingRule = mongoose.model<IGatingRule>('GatingRule', GatingRuleSchema);
+
+export default GatingRule;
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Define the interface for the Invite document
+export interface IInvite extends Document {
+  telegramUserId: number;
+  chatId: string;
+  inviteLink: string;
+  expiresAt: Date;
+  memberLimit: number;
+  usedAt?: Date; // Set once the user joined through the link
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// Define the Invite schema
+const InviteSchema: Schema = new Schema({
+  telegramUserId: {
+    type: Number,
+    required: true,
+    index: true,
+  },
+  chatId: { type: String, required: true },
+  inviteLink: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expiresAt: { type: Date, required: true },
+  memberLimit: { type: Number, required: true },
+  usedAt: { type: Date, required: false },
+  revokedAt: { type: Date, required: false },
+}, { timestamps: true });
+
+// Create and export the Invite model
+const Invite = mongoose.model<IInvite>('Invite', InviteSchema);
+
+export default Invite;
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SearchModeName = 'top' | 'latest' | 'photos' | 'videos';
+
+// An account whose timeline is scraped every cycle
+export interface WatchedAccount {
+  username: string;
+  count: number; // Tweets fetched per cycle
+  includeReplies: boolean; // Use getTweetsAndReplies instead of getTweets
+}
+
+// Define the interface for the SearchConfig document
+export interface ISearchConfig extends Document {
+  name: string; // Only the `default` config is used by the pipeline
+  keywordGroups: {
+    primary: string[];
+    context: string[]; // Each primary keyword is searched with every context keyword
+  };
+  queries: string[]; // Extra search queries used as-is
+  tweetsPerQuery: number;
+  searchMode: SearchModeName;
+  watchedAccounts: WatchedAccount[];
+  updatedBy?: string;
+}
+
+const WatchedAccountSchema: Schema = new Schema({
+  username: { type: String, required: true },
+  count: { type: Number, default: 10 },
+  includeReplies: { type: Boolean, default: false },
+}, { _id: false });
+
+// Define the SearchConfig schema
+const SearchConfigSchema: Schema = new Schema({
+  name: { type: String, required: true, unique: true },
+  keywordGroups: {
+    primary: { type: [String], default: [] },
+    context: { type: [String], default: [] },
+  },
+  queries: { type: [String], default: [] },
+  tweetsPerQuery: { type: Number, default: 3 },
+  searchMode: { type: String, enum: ['top', 'latest', 'photos', 'videos'], default: 'latest' },
+  watchedAccounts: { type: [WatchedAccountSchema], default: [] },
+  updatedBy: { type: String, required: false },
+}, { timestamps: true });
+
+// Create and export the SearchConfig model
+const SearchConfig = mongoose.model<ISearchConfig>('SearchConfig', SearchConfigSchema);
+
+export default SearchConfig;
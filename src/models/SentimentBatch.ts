@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TokenSignal } from '../services/tokenSignals';
+
+// Define the interface for the SentimentBatch document
+export interface ISentimentBatch extends Document {
+  batchId: string;
+  timestamp: Date;
+  metadata: {
+    totalTweetsAnalyzed: number;
+    significantTweetsCount: number;
+    targetAccounts: string[]; // Watched accounts scraped for the batch
+    queries: string[]; // Search queries run for the batch
+  };
+  statistics: {
+    averageScore: number;
+    averageCredibility: number;
+    sentimentDistribution: Map<string, number>;
+    topTopics: { topic: string; count: number }[];
+  };
+  tokens: TokenSignal[]; // Significant tweets grouped per token mentioned
+  tweetIds: string[]; // Significant tweets, stored in SentimentTweet
+}
+
+// Define the SentimentBatch schema
+const SentimentBatchSchema: Schema = new Schema({
+  batchId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  timestamp: { type: Date, required: true, index: true },
+  metadata: {
+    totalTweetsAnalyzed: { type: Number, default: 0 },
+    significantTweetsCount: { type: Number, default: 0 },
+    targetAccounts: { type: [String], default: [] },
+    queries: { type: [String], default: [] },
+  },
+  statistics: {
+    averageScore: { type: Number, default: 0 },
+    averageCredibility: { type: Number, default: 0 },
+    sentimentDistribution: { type: Map, of: Number, default: {} },
+    topTopics: [{
+      _id: false,
+      topic: { type: String, required: true },
+      count: { type: Number, required: true },
+    }],
+  },
+  tokens: { type: [Schema.Types.Mixed], default: [] },
+  tweetIds: { type: [String], default: [] },
+}, { timestamps: true });
+
+// Create and export the SentimentBatch model
+const SentimentBatch = mongoose.model<ISentimentBatch>('SentimentBatch', SentimentBatchSchema);
+
+export default SentimentBatch;
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AnalyzedTweet } from '../services/tweetAnalyzer';
+
+// Define the interface for the SentimentTweet document
+export interface ISentimentTweet extends Document {
+  tweetId: string;
+  batchId: string;
+  userId?: string;
+  username?: string;
+  name?: string;
+  text?: string;
+  permanentUrl?: string;
+  postedAt?: Date;
+  hashtags: string[];
+  urls: string[];
+  tokens: AnalyzedTweet['tokens'];
+  analysis: AnalyzedTweet['analysis'];
+  engagement: {
+    likes: number;
+    retweets: number;
+    replies: number;
+    views: number;
+    bookmarks: number;
+  };
+  createdAt: Date;
+}
+
+// Define the SentimentTweet schema. A tweet found again in a later batch gets a new entry
+const SentimentTweetSchema: Schema = new Schema({
+  tweetId: { type: String, required: true },
+  batchId: { type: String, required: true, index: true },
+  userId: { type: String, required: false },
+  username: { type: String, required: false },
+  name: { type: String, required: false },
+  text: { type: String, required: false },
+  permanentUrl: { type: String, required: false },
+  postedAt: { type: Date, required: false },
+  hashtags: { type: [String], default: [] },
+  urls: { type: [String], default: [] },
+  tokens: {
+    cashtags: { type: [String], default: [] },
+    mints: { type: [String], default: [] },
+    info: { type: Schema.Types.Mixed, required: false }, // TokenInfo keyed by mint
+  },
+  analysis: {
+    sentiment: { type: String, enum: ['positive', 'negative', 'neutral'], required: true },
+    score: { type: Number, required: true },
+    topics: { type: [String], default: [] },
+    summary: { type: String, default: '' },
+    credibilityScore: { type: Number, required: true },
+    riskScore: { type: Number, default: null },
+    riskReasons: { type: [String], default: [] },
+    provider: { type: String, required: false }, // Analysis provider, e.g. openai or rule-based
+    model: { type: String, required: false },
+    promptVersion: { type: String, required: false },
+  },
+  engagement: {
+    likes: { type: Number, default: 0 },
+    retweets: { type: Number, default: 0 },
+    replies: { type: Number, default: 0 },
+    views: { type: Number, default: 0 },
+    bookmarks: { type: Number, default: 0 },
+  },
+}, { timestamps: true });
+
+SentimentTweetSchema.index({ tweetId: 1, batchId: 1 }, { unique: true });
+SentimentTweetSchema.index({ 'analysis.topics': 1, createdAt: -1 });
+SentimentTweetSchema.index({ 'analysis.sentiment': 1, 'analysis.score': -1 });
+SentimentTweetSchema.index({ 'tokens.mints': 1 });
+SentimentTweetSchema.index({ 'tokens.cashtags': 1 });
+
+// Create and export the SentimentTweet model
+const SentimentTweet = mongoose.model<ISentimentTweet>('SentimentTweet', SentimentTweetSchema);
+
+export default SentimentTweet;
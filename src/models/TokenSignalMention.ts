@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SIGNAL_RETENTION } from '../settings';
+
+// Define the interface for the TokenSignalMention document
+export interface ITokenSignalMention extends Document {
+  key: string; // Token key, as on TokenSignalWindow
+  windowSize: number; // Seconds
+  tweetId: string;
+  windowStart: Date; // Window the tweet was counted in
+  createdAt: Date;
+}
+
+// Define the TokenSignalMention schema. One entry per token and tweet, so a tweet found again later is counted once
+const TokenSignalMentionSchema: Schema = new Schema({
+  key: { type: String, required: true },
+  windowSize: { type: Number, required: true },
+  tweetId: { type: String, required: true },
+  windowStart: { type: Date, required: true },
+}, { timestamps: true });
+
+TokenSignalMentionSchema.index({ key: 1, windowSize: 1, tweetId: 1 }, { unique: true });
+// Changing the retention requires dropping this index so it is rebuilt
+TokenSignalMentionSchema.index({ createdAt: 1 }, { expireAfterSeconds: SIGNAL_RETENTION });
+
+// Create and export the TokenSignalMention model
+const TokenSignalMention = mongoose.model<ITokenSignalMention>('TokenSignalMention', TokenSignalMentionSchema);
+
+export default TokenSignalMention;
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SIGNAL_RETENTION } from '../settings';
+
+// Define the interface for the TokenSignalWindow document
+export interface ITokenSignalWindow extends Document {
+  key: string; // Mint address, or `$TICKER` when no address was mentioned
+  mint?: string;
+  symbols: string[];
+  windowStart: Date;
+  windowSize: number; // Seconds
+  mentions: number;
+  authors: string[];
+  uniqueAuthors: number;
+  tweetIds: string[]; // Tweets counted in the window, see TokenSignalMention
+  batchIds: string[];
+  scoreSum: number;
+  credibilitySum: number;
+  averageScore: number;
+  averageCredibility: number;
+  previousMentions: number; // Mentions in the window before this one
+  mentionsRatio: number | null; // mentions / previousMentions, null when the previous window was empty
+  accelerating: boolean;
+  acceleratingSince?: Date | null;
+}
+
+// Define the TokenSignalWindow schema
+const TokenSignalWindowSchema: Schema = new Schema({
+  key: { type: String, required: true },
+  mint: { type: String, required: false },
+  symbols: { type: [String], default: [] },
+  windowStart: { type: Date, required: true },
+  windowSize: { type: Number, required: true },
+  mentions: { type: Number, default: 0 },
+  authors: { type: [String], default: [] },
+  uniqueAuthors: { type: Number, default: 0 },
+  tweetIds: { type: [String], default: [] },
+  batchIds: { type: [String], default: [] },
+  scoreSum: { type: Number, default: 0 },
+  credibilitySum: { type: Number, default: 0 },
+  averageScore: { type: Number, default: 0 },
+  averageCredibility: { type: Number, default: 0 },
+  previousMentions: { type: Number, default: 0 },
+  mentionsRatio: { type: Number, default: null },
+  accelerating: { type: Boolean, default: false },
+  acceleratingSince: { type: Date, default: null },
+}, { timestamps: true });
+
+TokenSignalWindowSchema.index({ key: 1, windowSize: 1, windowStart: -1 }, { unique: true });
+TokenSignalWindowSchema.index({ windowStart: -1, accelerating: 1 });
+// Changing the retention requires dropping this index so it is rebuilt
+TokenSignalWindowSchema.index({ createdAt: 1 }, { expireAfterSeconds: SIGNAL_RETENTION });
+
+// Create and export the TokenSignalWindow model
+const TokenSignalWindow = mongoose.model<ITokenSignalWindow>('TokenSignalWindow', TokenSignalWindowSchema);
+
+export default TokenSignalWindow;
@@ -1,4 +1,14 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PendingRevocation } from '../services/revocationPolicy';
+
+// Manual access decision by an admin, applied instead of the gating rules
+export interface AccessOverride {
+  type: 'grant' | 'revoke';
+  tier: string | null; // Tier granted, null for revocations
+  reason: string;
+  createdAt: Date;
+  expiresAt?: Date | null; // The gating rules apply again afterwards
+}
 
 // Define the interface for the User document
 export interface IUser extends Document {
@@ -6,10 +16,15 @@ export interface IUser extends Document {
   sessionId: string;
   walletAddress?: string; // Optional, as it's set after connection
   createdAt: Date;
-  nonce?: string;
+  nonce?: string; // Last challenge nonce redeemed by this user
   signature?: string;
   hasRequiredBalance?: boolean;
   tokenBalance?: string;
+  holdings?: Map<string, string>; // Balance per gated mint
+  nftHoldings?: Map<string, number>; // NFT count per gated collection
+  tier?: string | null; // Tier resolved by the gating rules
+  pendingRevocation?: PendingRevocation | null; // Downgrade waiting for the grace period
+  accessOverride?: AccessOverride | null;
   lastChecked?: Date;
   inviteUrl?: string;
 }
@@ -19,7 +34,7 @@ const UserSchema: Schema = new Schema({
   telegramUserId: {
     type: Number,
     required: true,
-    unique: true, // Assuming one wallet per Telegram user for now
+    unique: true, // One User per Telegram account, extra wallets live in the Wallet collection
   },
   sessionId: {
     type: String,
@@ -42,6 +57,27 @@ const UserSchema: Schema = new Schema({
   },
   hasRequiredBalance: { type: Boolean, default: false },
   tokenBalance: { type: String, default: '0' },
+  holdings: { type: Map, of: String, default: {} },
+  nftHoldings: { type: Map, of: Number, default: {} },
+  tier: { type: String, default: null },
+  pendingRevocation: {
+    type: new Schema({
+      since: { type: Date, required: true },
+      failedChecks: { type: Number, required: true },
+      targetTier: { type: String, default: null },
+    }, { _id: false }),
+    default: null,
+  },
+  accessOverride: {
+    type: new Schema({
+      type: { type: String, enum: ['grant', 'revoke'], required: true },
+      tier: { type: String, default: null },
+      reason: { type: String, required: true },
+      createdAt: { type: Date, default: Date.now },
+      expiresAt: { type: Date, default: null },
+    }, { _id: false }),
+    default: null,
+  },
   lastChecked: { type: Date },
   inviteUrl: { type: String, required: false }
 }, { timestamps: true });
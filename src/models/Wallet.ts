@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Define the interface for the Wallet document
+export interface IWallet extends Document {
+  address: string;
+  telegramUserId: number;
+  isPrimary: boolean; // The wallet stored as User.walletAddress
+  signature?: string; // Proof signature presented when the wallet was linked
+  linkedAt: Date;
+}
+
+// Define the Wallet schema
+const WalletSchema: Schema = new Schema({
+  address: {
+    type: String,
+    required: true,
+    unique: true, // A wallet can only ever back one Telegram account
+  },
+  telegramUserId: {
+    type: Number,
+    required: true,
+    index: true,
+  },
+  isPrimary: { type: Boolean, default: false },
+  signature: { type: String, required: false },
+  linkedAt: { type: Date, default: Date.now },
+}, { timestamps: true });
+
+// Create and export the Wallet model
+const Wallet = mongoose.model<IWallet>('Wallet', WalletSchema);
+
+export default Wallet;
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { web3Auth, authorizedPk } from '../middleware/web3Auth';
+import { AccountManager } from '../services/accountManager';
+import { WalletRegistry } from '../services/walletRegistry';
+
+export const accountRouter = Router();
+
+/**
+ * Disconnects a wallet from the caller's account, defaulting to the signing
+ * wallet. Disconnecting the primary wallet releases all wallets and revokes
+ * group access.
+ */
+accountRouter.post('/disconnect',
+  web3Auth({ action: 'account:disconnect' }),
+  async (req, res) => {
+    try {
+      const walletAddress = req.body.walletAddress || authorizedPk(res);
+      const user = await WalletRegistry.getInstance().findOwner(authorizedPk(res));
+      if (!user) {
+        return res.status(404).json({ error: 'Wallet is not connected to any account' });
+      }
+
+      if (!(await AccountManager.getInstance().disconnectWallet(user, walletAddress))) {
+        return res.status(404).json({ error: 'Wallet is not linked to this account' });
+      }
+
+      res.status(200).json({ message: 'Wallet disconnected successfully' });
+    } catch (error) {
+      console.error("Error disconnecting wallet:", error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+accountRouter.delete('/',
+  web3Auth({ action: 'account:delete' }),
+  async (req, res) => {
+    try {
+      const user = await WalletRegistry.getInstance().findOwner(authorizedPk(res));
+      if (!user) {
+        return res.status(404).json({ error: 'Wallet is not connected to any account' });
+      }
+
+      await AccountManager.getInstance().deleteAccount(user);
+      res.status(200).json({ message: 'Account deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+accountRouter.get('/export',
+  web3Auth({ action: 'account:export' }),
+  async (req, res) => {
+    try {
+      const user = await WalletRegistry.getInstance().findOwner(authorizedPk(res));
+      if (!user) {
+        return res.status(404).json({ error: 'Wallet is not connected to any account' });
+      }
+
+      const data = await AccountManager.getInstance().exportAccount(user);
+      res.attachment(`account-${user.telegramUserId}.json`);
+      res.status(200).json(data);
+    } catch (error) {
+      console.error("Error exporting account:", error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+export default accountRouter;
@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import { FilterQuery } from 'mongoose';
+import User, { IUser } from '../models/User';
+import { verifyApiKey, authorizedApiKey } from '../middleware/verify';
+import { BalanceClient } from '../clients/balanceClient';
+import { BalanceChecker } from '../services/balanceChecker';
+import { loadGatingRules } from '../services/gatingEvaluator';
+import { readPermissionHistory } from '../services/permissionEvents';
+import { queryBalanceHistory } from '../services/balanceHistory';
+import { BalanceHistorySource } from '../models/BalanceHistory';
+import { WalletRegistry } from '../services/walletRegistry';
+import { loadSearchConfig, saveSearchConfig } from '../services/searchConfig';
+import { getAnalysisRejections } from '../services/tweetAnalyzer';
+
+export const adminRouter = Router();
+
+adminRouter.use(['/users', '/wallets'], verifyApiKey('admin:users'));
+adminRouter.use('/sweep', verifyApiKey('admin:sweep'));
+adminRouter.use(['/search-config', '/analysis'], verifyApiKey('admin:search'));
+
+const SORTABLE_FIELDS = ['createdAt', 'lastChecked', 'telegramUserId', 'tier'];
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Lists users, newest first. Supports `page`/`limit` pagination, filters on
+ * `telegramUserId`, `walletAddress`, `tier`, `hasRequiredBalance`,
+ * `hasOverride` and `checkedBefore`/`checkedAfter`, a free-text `search`
+ * over wallet addresses and Telegram IDs, and `sort`/`order`.
+ */
+adminRouter.get('/users', async (req, res) => {
+  try {
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.limit) || 20));
+    const { telegramUserId, walletAddress, tier, hasRequiredBalance, hasOverride, checkedBefore, checkedAfter, search } = req.query;
+
+    const filter: FilterQuery<IUser> = {};
+    if (telegramUserId) filter.telegramUserId = Number(telegramUserId);
+    if (walletAddress) filter.walletAddress = String(walletAddress);
+    if (tier) filter.tier = tier === 'none' ? null : String(tier);
+    if (hasRequiredBalance) filter.hasRequiredBalance = hasRequiredBalance === 'true';
+    if (hasOverride) filter.accessOverride = hasOverride === 'true' ? { $ne: null } : null;
+    if (checkedBefore || checkedAfter) {
+      filter.lastChecked = {
+        ...(checkedBefore ? { $lt: new Date(String(checkedBefore)) } : {}),
+        ...(checkedAfter ? { $gte: new Date(String(checkedAfter)) } : {}),
+      };
+    }
+    if (search) {
+      const term = String(search);
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter.$or = [
+        { walletAddress: { $regex: `^${escaped}` } },
+        ...(/^\d+$/.test(term) ? [{ telegramUserId: Number(term) }] : []),
+      ];
+    }
+
+    const sortField = SORTABLE_FIELDS.includes(String(req.query.sort)) ? String(req.query.sort) : 'createdAt';
+    const order = req.query.order === 'asc' ? 1 : -1;
+
+    const [users, total] = await Promise.all([
+      User.find(filter).sort({ [sortField]: order }).skip((page - 1) * limit).limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    res.status(200).json({ users, total, page, limit });
+  } catch (error) {
+    console.error("Error listing users:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+adminRouter.get('/users/:telegramUserId', async (req, res) => {
+  try {
+    const user = await User.findOne({ telegramUserId: Number(req.params.telegramUserId) });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.status(200).json({ user, wallets: await WalletRegistry.getInstance().walletsFor(user) });
+  } catch (error) {
+    console.error("Error fetching user:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Balance readings and permission transitions of a user, newest first.
+ * Filters: `source`, `changesOnly=true`, `since`/`until`, with
+ * `page`/`limit` pagination.
+ */
+adminRouter.get('/users/:telegramUserId/history', async (req, res) => {
+  try {
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.limit) || 50));
+    const { source, changesOnly, since, until } = req.query;
+
+    const { entries, total } = await queryBalanceHistory(Number(req.params.telegramUserId), {
+      source: source ? String(source) as BalanceHistorySource : undefined,
+      changesOnly: changesOnly === 'true',
+      since: since ? new Date(String(since)) : undefined,
+      until: until ? new Date(String(until)) : undefined,
+      page,
+      limit,
+    });
+
+    res.status(200).json({ entries, total, page, limit });
+  } catch (error) {
+    console.error("Error fetching user history:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Permission events sent to the Telegram bot for a user, newest first. */
+adminRouter.get('/users/:telegramUserId/events', async (req, res) => {
+  try {
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.limit) || 50));
+    const events = await readPermissionHistory(Number(req.params.telegramUserId), limit);
+
+    res.status(200).json({ events });
+  } catch (error) {
+    console.error("Error fetching user events:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Re-checks the account a wallet belongs to right away. */
+adminRouter.post('/wallets/:address/recheck', async (req, res) => {
+  try {
+    const user = await WalletRegistry.getInstance().findOwner(req.params.address);
+    if (!user) {
+      return res.status(404).json({ error: 'Wallet is not connected to any account' });
+    }
+
+    res.status(200).json({ user: await BalanceChecker.getInstance().recheckUser(user, 'admin') });
+  } catch (error) {
+    console.error("Error re-checking wallet:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Grants (`{ action: 'grant', tier }`) or revokes (`{ action: 'revoke' }`)
+ * access regardless of holdings. A `reason` is required; the override lasts
+ * until `expiresAt`, if given, or until it is cleared.
+ */
+adminRouter.post('/users/:telegramUserId/access', async (req, res) => {
+  try {
+    const { action, tier, reason, expiresAt } = req.body;
+    if ((action !== 'grant' && action !== 'revoke') || !reason) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+    const expiresAtDate = expiresAt ? new Date(expiresAt) : null;
+    if (expiresAtDate && isNaN(expiresAtDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid expiresAt' });
+    }
+
+    const user = await User.findOne({ telegramUserId: Number(req.params.telegramUserId) });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const rules = await loadGatingRules();
+    if (action === 'grant' && !rules.some(rule => rule.tier === tier)) {
+      return res.status(400).json({ error: 'Unknown tier', tiers: rules.map(rule => rule.tier) });
+    }
+
+    user.accessOverride = {
+      type: action,
+      tier: action === 'grant' ? tier : null,
+      reason: String(reason),
+      createdAt: new Date(),
+      expiresAt: expiresAtDate,
+    };
+    console.log(`Admin ${action} for user ${user.telegramUserId} by ${authorizedApiKey(res).owner}: ${reason}`);
+
+    res.status(200).json({ user: await BalanceChecker.getInstance().recheckUser(user, 'admin', rules) });
+  } catch (error) {
+    console.error("Error overriding access:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Clears an override so the gating rules apply again. */
+adminRouter.delete('/users/:telegramUserId/access', async (req, res) => {
+  try {
+    const user = await User.findOne({ telegramUserId: Number(req.params.telegramUserId) });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    user.accessOverride = null;
+    res.status(200).json({ user: await BalanceChecker.getInstance().recheckUser(user, 'admin') });
+  } catch (error) {
+    console.error("Error clearing access override:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Starts a full balance sweep in the background. */
+adminRouter.post('/sweep', async (req, res) => {
+  try {
+    const client = BalanceClient.getInstance();
+    if (client.isBalanceCheckRunning()) {
+      return res.status(409).json({ error: 'A balance check is already running' });
+    }
+
+    client.runExclusiveBalanceCheck().catch(error => {
+      console.error("Error in on-demand balance check:", error);
+    });
+    res.status(202).json({ message: 'Balance check started' });
+  } catch (error) {
+    console.error("Error starting balance check:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+adminRouter.get('/sweep/metrics', async (req, res) => {
+  try {
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.limit) || 20));
+    res.status(200).json({ metrics: await BalanceChecker.getInstance().getSweepMetrics(limit) });
+  } catch (error) {
+    console.error("Error fetching sweep metrics:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Search configuration of the sentiment pipeline. */
+adminRouter.get('/search-config', async (req, res) => {
+  try {
+    res.status(200).json({ config: await loadSearchConfig() });
+  } catch (error) {
+    console.error("Error fetching search config:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Updates the search configuration. Fields left out keep their current
+ * value; changes apply from the next pipeline cycle.
+ */
+adminRouter.put('/search-config', async (req, res) => {
+  try {
+    const { keywordGroups, queries, tweetsPerQuery, searchMode, watchedAccounts } = req.body;
+    const input = Object.fromEntries(
+      Object.entries({ keywordGroups, queries, tweetsPerQuery, searchMode, watchedAccounts })
+        .filter(([, value]) => value !== undefined)
+    );
+
+    const { config, errors } = await saveSearchConfig(input, authorizedApiKey(res).owner);
+    if (errors) {
+      return res.status(400).json({ error: 'Invalid search config', details: errors });
+    }
+
+    res.status(200).json({ config });
+  } catch (error) {
+    console.error("Error updating search config:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Counts of LLM analysis responses that failed validation, and of fallback classifications. */
+adminRouter.get('/analysis/metrics', async (req, res) => {
+  try {
+    res.status(200).json(await getAnalysisRejections());
+  } catch (error) {
+    console.error("Error fetching analysis metrics:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+export default adminRouter;
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { AuthChallenge, AuthMessageFormat } from '../services/authChallenge';
+import { SessionManager } from '../services/sessionManager';
+import { web3Auth, authorizedPk } from '../middleware/web3Auth';
+import { sessionAuth, authorizedSession } from '../middleware/sessionAuth';
+import { AUTH_LEGACY_JSON_MESSAGES } from '../settings';
+
+export const authRouter = Router();
+
+/**
+ * Issues a single-use nonce and the message the wallet has to sign for
+ * `action`. The signed message is then sent to a `web3Auth` protected
+ * route as `Authorization: Bearer pk.msg.sig`.
+ * `format` is `siws` (default) or `json` for the legacy message format.
+ */
+authRouter.get('/challenge', async (req, res) => {
+  try {
+    const action = req.query.action;
+    const publicKey = req.query.publicKey;
+    const format = (req.query.format || 'siws') as AuthMessageFormat;
+    if (typeof action !== 'string' || !action) {
+      return res.status(400).json({ error: 'Missing action' });
+    }
+    if (format !== 'siws' && !(format === 'json' && AUTH_LEGACY_JSON_MESSAGES)) {
+      return res.status(400).json({ error: 'Unsupported message format' });
+    }
+    if (publicKey !== undefined) {
+      try {
+        new PublicKey(publicKey as string);
+      } catch {
+        return res.status(400).json({ error: 'Invalid public key' });
+      }
+    }
+
+    const challenge = await AuthChallenge.getInstance()
+      .issue(action, publicKey as string | undefined, format);
+
+    res.status(200).json(challenge);
+  } catch (error) {
+    console.error("Error issuing auth challenge:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Exchanges a signed `auth:session` message for a short-lived access token
+ * and a refresh token, so read endpoints can be called without prompting
+ * the wallet again.
+ */
+authRouter.post('/session',
+  web3Auth({ action: 'auth:session' }),
+  async (req, res) => {
+    try {
+      const tokens = await SessionManager.getInstance().create(authorizedPk(res));
+      res.status(200).json(tokens);
+    } catch (error) {
+      console.error("Error creating session:", error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+authRouter.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Missing refresh token' });
+    }
+
+    const tokens = await SessionManager.getInstance().refresh(refreshToken);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.status(200).json(tokens);
+  } catch (error) {
+    console.error("Error refreshing session:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+authRouter.post('/logout', sessionAuth(), async (req, res) => {
+  try {
+    await SessionManager.getInstance().revoke(authorizedSession(res));
+    res.status(200).json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+export default authRouter;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { holderAuth } from '../middleware/holderAuth';
+import { authorizedPk } from '../middleware/web3Auth';
+import { FEED_ACTION, parseFeedFilters, SentimentFeed } from '../services/sentimentFeed';
+
+export const feedRouter = Router();
+
+/**
+ * Live sentiment feed over Server-Sent Events, for token holders only.
+ * Authenticate with a session access token or a `sentiment:subscribe`
+ * signature, in the `Authorization` header or the `access_token` query
+ * parameter. Filter with `topics=a,b` and `minScore`. The same feed is
+ * served over WebSocket at `/api/feed/ws`.
+ */
+feedRouter.get('/sse', holderAuth(FEED_ACTION), (req, res) => {
+  SentimentFeed.getInstance().addSseClient(req, res, authorizedPk(res), parseFeedFilters(req.query));
+});
+
+export default feedRouter;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { verifyApiKey } from '../middleware/verify';
+import { InviteManager } from '../services/inviteManager';
+
+export const invitesRouter = Router();
+
+/**
+ * Called by the Telegram bot when a user joins a group through an invite
+ * link, so the link is recorded as used.
+ */
+invitesRouter.post('/used', verifyApiKey('invites:write'), async (req, res) => {
+  try {
+    const { inviteLink, telegramUserId } = req.body;
+    if (!inviteLink || !telegramUserId) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+
+    const invite = await InviteManager.getInstance().markUsed(inviteLink, Number(telegramUserId));
+    if (!invite) {
+      return res.status(404).json({ error: 'Invite not found for this user' });
+    }
+
+    res.status(200).json({ message: 'Invite marked as used', invite });
+  } catch (error) {
+    console.error("Error marking invite as used:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+export default invitesRouter;
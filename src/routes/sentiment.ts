@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import { holderAuth } from '../middleware/holderAuth';
+import { SentimentStore, TweetQuery } from '../services/sentimentStore';
+import { normalizeTokenKey, TokenTimeline } from '../services/tokenTimeline';
+
+export const sentimentRouter = Router();
+
+// Action signed by holders who authenticate without a session
+const SENTIMENT_ACTION = 'sentiment:read';
+
+/**
+ * Sentiment data is for token holders only, authenticated like the live
+ * feed with a session access token or a `sentiment:read` signature.
+ */
+sentimentRouter.use(holderAuth(SENTIMENT_ACTION));
+
+const SENTIMENTS = ['positive', 'negative', 'neutral'];
+
+// Optional numeric query parameter, undefined when absent or not a number
+const numberParam = (value: unknown): number | undefined => {
+  const parsed = Number(value);
+  return value === undefined || value === '' || Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const dateParam = (value: unknown): Date | undefined => {
+  const parsed = new Date(String(value));
+  return value === undefined || Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+/** The most recent batch with its significant tweets, best score first. */
+sentimentRouter.get('/latest', async (req, res) => {
+  try {
+    const latest = await SentimentStore.getInstance().latestBatch();
+    if (!latest) {
+      return res.status(404).json({ error: 'No sentiment batch yet' });
+    }
+
+    res.status(200).json(latest);
+  } catch (error) {
+    console.error("Error fetching latest sentiment batch:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Batch history newest first, paginated with `page`/`limit` and bounded by `since`/`until`. */
+sentimentRouter.get('/batches', async (req, res) => {
+  try {
+    res.status(200).json(await SentimentStore.getInstance().listBatches({
+      page: numberParam(req.query.page),
+      limit: numberParam(req.query.limit),
+      since: dateParam(req.query.since),
+      until: dateParam(req.query.until),
+    }));
+  } catch (error) {
+    console.error("Error listing sentiment batches:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+sentimentRouter.get('/batches/:batchId', async (req, res) => {
+  try {
+    const batch = await SentimentStore.getInstance().getBatch(req.params.batchId);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    res.status(200).json(batch);
+  } catch (error) {
+    console.error("Error fetching sentiment batch:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Significant tweets newest first. Filters: `topic`, `sentiment`,
+ * `minScore`/`maxScore`, `minCredibility`, `maxRiskScore`, `batchId`,
+ * `token` (mint or ticker) and `since`/`until`.
+ */
+sentimentRouter.get('/tweets', async (req, res) => {
+  try {
+    const { topic, sentiment, batchId, token } = req.query;
+    if (sentiment && !SENTIMENTS.includes(String(sentiment))) {
+      return res.status(400).json({ error: `sentiment must be one of ${SENTIMENTS.join(', ')}` });
+    }
+
+    res.status(200).json(await SentimentStore.getInstance().findTweets({
+      topic: topic ? String(topic) : undefined,
+      sentiment: sentiment ? String(sentiment) as TweetQuery['sentiment'] : undefined,
+      minScore: numberParam(req.query.minScore),
+      maxScore: numberParam(req.query.maxScore),
+      minCredibility: numberParam(req.query.minCredibility),
+      maxRiskScore: numberParam(req.query.maxRiskScore),
+      batchId: batchId ? String(batchId) : undefined,
+      token: token ? String(token) : undefined,
+      since: dateParam(req.query.since),
+      until: dateParam(req.query.until),
+      page: numberParam(req.query.page),
+      limit: numberParam(req.query.limit),
+    }));
+  } catch (error) {
+    console.error("Error listing sentiment tweets:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Analysis of a single tweet; `analyses` lists every batch it appeared in. */
+sentimentRouter.get('/tweets/:tweetId', async (req, res) => {
+  try {
+    const analyses = await SentimentStore.getInstance().tweetAnalyses(req.params.tweetId);
+    if (analyses.length === 0) {
+      return res.status(404).json({ error: 'Tweet not found' });
+    }
+
+    res.status(200).json({ tweet: analyses[0], analyses });
+  } catch (error) {
+    console.error("Error fetching tweet analysis:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/** Tokens whose mentions are accelerating, fastest growing first. */
+sentimentRouter.get('/tokens/heating', async (req, res) => {
+  try {
+    const limit = Math.min(100, Math.max(1, numberParam(req.query.limit) ?? 20));
+    res.status(200).json({ tokens: await TokenTimeline.getInstance().heatingUp(limit) });
+  } catch (error) {
+    console.error("Error listing accelerating tokens:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Time series of one token, newest window first. `token` is a mint address
+ * or a ticker; bounded by `since`/`until` and `limit` windows.
+ */
+sentimentRouter.get('/tokens/:token/timeline', async (req, res) => {
+  try {
+    const key = normalizeTokenKey(req.params.token);
+    const windows = await TokenTimeline.getInstance().series(key, {
+      since: dateParam(req.query.since),
+      until: dateParam(req.query.until),
+      limit: numberParam(req.query.limit),
+    });
+
+    res.status(200).json({ key, windows });
+  } catch (error) {
+    console.error("Error fetching token timeline:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+export default sentimentRouter;
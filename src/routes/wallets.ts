@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { web3Auth, authorizedPk, verifyAuthToken, Web3AuthError } from '../middleware/web3Auth';
+import { sessionAuth } from '../middleware/sessionAuth';
+import { BalanceChecker } from '../services/balanceChecker';
+import { WalletInUseError, WalletRegistry } from '../services/walletRegistry';
+
+export const walletsRouter = Router();
+
+walletsRouter.get('/', sessionAuth(), async (req, res) => {
+  try {
+    const registry = WalletRegistry.getInstance();
+    const user = await registry.findOwner(authorizedPk(res));
+    if (!user) {
+      return res.status(404).json({ error: 'Wallet is not connected to any account' });
+    }
+
+    res.status(200).json({ primary: user.walletAddress, wallets: await registry.walletsFor(user) });
+  } catch (error) {
+    console.error("Error listing wallets:", error);
+    res.status(500).send("Internal Server Error");
+  }
+});
+
+/**
+ * Action the wallet being linked signs. It names the account's primary
+ * wallet, so a captured proof cannot attach the wallet to another account.
+ */
+export const linkProofAction = (primaryWallet: string) => `wallet:link:${primaryWallet}`;
+
+/**
+ * Links an extra wallet to the caller's account. The request is signed by a
+ * wallet already on the account (`wallet:link`), and `proof` is a second
+ * `pk.msg.sig` token signed by the wallet being linked for
+ * `wallet:link:<primary wallet>`.
+ */
+walletsRouter.post('/link',
+  web3Auth({ action: 'wallet:link' }),
+  async (req, res) => {
+    try {
+      const { proof } = req.body;
+      if (!proof) {
+        return res.status(400).json({ error: 'Missing wallet proof' });
+      }
+
+      const registry = WalletRegistry.getInstance();
+      const user = await registry.findOwner(authorizedPk(res));
+      if (!user) {
+        return res.status(404).json({ error: 'Wallet is not connected to any account' });
+      }
+      if (!user.walletAddress) {
+        return res.status(400).json({ error: 'Account has no primary wallet' });
+      }
+
+      let linkedAddress: string;
+      try {
+        ({ publicKey: linkedAddress } = await verifyAuthToken(proof, { action: linkProofAction(user.walletAddress) }));
+      } catch (error) {
+        if (error instanceof Web3AuthError) {
+          return res.status(401).json({ error: `Invalid wallet proof: ${error.message}` });
+        }
+        throw error;
+      }
+
+      if (linkedAddress === authorizedPk(res)) {
+        return res.status(400).json({ error: 'Proof must be signed by the wallet being linked' });
+      }
+
+      await registry.link(user, linkedAddress, proof.split('.')[2]);
+      await BalanceChecker.getInstance().recheckWallets([linkedAddress], 'connect');
+
+      res.status(200).json({ message: 'Wallet linked successfully', wallets: await registry.walletsFor(user) });
+    } catch (error) {
+      if (error instanceof WalletInUseError) {
+        return res.status(409).json({ error: 'Wallet is already linked to another account' });
+      }
+      console.error("Error linking wallet:", error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+/**
+ * Unlinks an extra wallet. Any wallet on the account may sign the request;
+ * the primary wallet cannot be unlinked here.
+ */
+walletsRouter.post('/unlink',
+  web3Auth({ action: 'wallet:unlink' }),
+  async (req, res) => {
+    try {
+      const { walletAddress } = req.body;
+      if (!walletAddress) {
+        return res.status(400).json({ error: 'Missing wallet address' });
+      }
+
+      const registry = WalletRegistry.getInstance();
+      const user = await registry.findOwner(authorizedPk(res));
+      if (!user) {
+        return res.status(404).json({ error: 'Wallet is not connected to any account' });
+      }
+      if (walletAddress === user.walletAddress) {
+        return res.status(400).json({ error: 'The primary wallet cannot be unlinked' });
+      }
+
+      if (!(await registry.unlink(user, walletAddress))) {
+        return res.status(404).json({ error: 'Wallet is not linked to this account' });
+      }
+      await BalanceChecker.getInstance().recheckWallets([user.walletAddress], 'connect');
+
+      res.status(200).json({ message: 'Wallet unlinked successfully', wallets: await registry.walletsFor(user) });
+    } catch (error) {
+      console.error("Error unlinking wallet:", error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+export default walletsRouter;
@@ -0,0 +1,80 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { API_KEY_SCOPES, ApiKeyScope, ApiKeyStore } from '../services/apiKeyStore';
+
+dotenv.config();
+
+const usage = `Usage:
+  apiKeys create <name> <owner> <scope,scope,...> [expiresAt]
+  apiKeys list
+  apiKeys revoke <prefix>
+
+Scopes: ${API_KEY_SCOPES.join(', ')}`;
+
+async function main(args: string[]) {
+  const store = ApiKeyStore.getInstance();
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'create': {
+      const [name, owner, scopes, expiresAt] = rest;
+      if (!name || !owner || !scopes) {
+        console.error(usage);
+        return 1;
+      }
+      const { key, apiKey } = await store.create({
+        name,
+        owner,
+        scopes: scopes.split(',') as ApiKeyScope[],
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      });
+      console.log(`Created key ${apiKey.prefix} for ${owner} (${apiKey.scopes.join(', ')})`);
+      console.log('Store it now, it cannot be shown again:');
+      console.log(key);
+      return 0;
+    }
+    case 'list': {
+      for (const apiKey of await store.list()) {
+        const status = apiKey.revokedAt ? 'revoked' : apiKey.expiresAt && apiKey.expiresAt <= new Date() ? 'expired' : 'active';
+        console.log([
+          apiKey.prefix,
+          apiKey.name,
+          apiKey.owner,
+          apiKey.scopes.join(','),
+          status,
+          `expires ${apiKey.expiresAt?.toISOString() ?? 'never'}`,
+          `last used ${apiKey.lastUsedAt?.toISOString() ?? 'never'}`,
+        ].join('\t'));
+      }
+      return 0;
+    }
+    case 'revoke': {
+      const [prefix] = rest;
+      if (!prefix) {
+        console.error(usage);
+        return 1;
+      }
+      if (!(await store.revoke(prefix))) {
+        console.error(`No active key with prefix ${prefix}`);
+        return 1;
+      }
+      console.log(`Revoked key ${prefix}`);
+      return 0;
+    }
+    default:
+      console.error(usage);
+      return 1;
+  }
+}
+
+mongoose.connect(process.env.MONGODB_URI!)
+  .then(() => main(process.argv.slice(2)))
+  .then(async (code) => {
+    await mongoose.disconnect();
+    process.exit(code);
+  })
+  .catch(async (error) => {
+    console.error('Error managing API keys:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
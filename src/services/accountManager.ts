@@ -0,0 +1,134 @@
+import { redis } from '../redis';
+import User, { IUser } from '../models/User';
+import Wallet from '../models/Wallet';
+import Invite from '../models/Invite';
+import BalanceHistory from '../models/BalanceHistory';
+import { BalanceChecker } from './balanceChecker';
+import { balanceHistoryEntry, recordBalanceHistory } from './balanceHistory';
+import { InviteManager } from './inviteManager';
+import { deletePermissionHistory, PermissionEventPublisher, readPermissionHistory } from './permissionEvents';
+import { SessionManager } from './sessionManager';
+import { WalletRegistry } from './walletRegistry';
+
+/**
+ * Self-service account operations: disconnecting wallets, deleting an
+ * account and exporting everything stored about it.
+ */
+export class AccountManager {
+  private static instance: AccountManager;
+
+  private constructor() {}
+
+  public static getInstance(): AccountManager {
+    if (!AccountManager.instance) {
+      AccountManager.instance = new AccountManager();
+    }
+    return AccountManager.instance;
+  }
+
+  /**
+   * Disconnects `address` from the account. A linked wallet is simply
+   * unlinked and the account re-checked; disconnecting the primary wallet
+   * releases every wallet and revokes the user's access. Returns false if
+   * the wallet does not belong to the account.
+   */
+  async disconnectWallet(user: IUser, address: string): Promise<boolean> {
+    const registry = WalletRegistry.getInstance();
+    const sessions = SessionManager.getInstance();
+
+    if (address !== user.walletAddress) {
+      if (!(await registry.unlink(user, address))) {
+        return false;
+      }
+      await sessions.revokeAll(address);
+      await BalanceChecker.getInstance().recheckWallets([user.walletAddress], 'account');
+      return true;
+    }
+
+    const wallets = await registry.walletsFor(user);
+    await Wallet.deleteMany({ telegramUserId: user.telegramUserId });
+    await Promise.all(wallets.map(wallet => sessions.revokeAll(wallet)));
+
+    await this.publishRevocation(user, wallets);
+
+    await User.updateOne({ _id: user._id }, {
+      $unset: { walletAddress: '', signature: '', nonce: '', pendingRevocation: '' },
+      $set: { hasRequiredBalance: false, tier: null, tokenBalance: '0', holdings: {}, nftHoldings: {} },
+    });
+    return true;
+  }
+
+  /**
+   * Deletes the user, their wallets, sessions, permission events and cached
+   * permission state. Only the final revocation stays in the stream, as the
+   * bot needs it to remove the user; `MAXLEN` trims it eventually.
+   */
+  async deleteAccount(user: IUser): Promise<void> {
+    const wallets = await WalletRegistry.getInstance().walletsFor(user);
+
+    if (user.telegramUserId != null) {
+      await deletePermissionHistory(user.telegramUserId);
+    }
+    await this.publishRevocation(user, wallets);
+
+    await Promise.all(wallets.map(wallet => SessionManager.getInstance().revokeAll(wallet)));
+    await redis
+      .multi()
+      .del(`user:${user.telegramUserId}:permissions`)
+      .hdel('telegram:permission-updates', String(user.telegramUserId))
+      .exec();
+
+    await Wallet.deleteMany({ telegramUserId: user.telegramUserId });
+    await Invite.deleteMany({ telegramUserId: user.telegramUserId });
+    await BalanceHistory.deleteMany({ telegramUserId: user.telegramUserId });
+    await User.deleteOne({ _id: user._id });
+  }
+
+  /** Everything stored about the user, as plain JSON. */
+  async exportAccount(user: IUser) {
+    const [wallets, invites, balanceHistory, permissionEvents] = await Promise.all([
+      Wallet.find({ telegramUserId: user.telegramUserId }).lean(),
+      Invite.find({ telegramUserId: user.telegramUserId }).lean(),
+      BalanceHistory.find({ telegramUserId: user.telegramUserId }).sort({ createdAt: -1 }).lean(),
+      user.telegramUserId != null ? readPermissionHistory(user.telegramUserId, Infinity, Infinity) : [],
+    ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      user: user.toObject({ flattenMaps: true }),
+      wallets,
+      invites,
+      balanceHistory,
+      permissionEvents: permissionEvents.map(entry => entry.event),
+    };
+  }
+
+  /**
+   * Revokes the user's invites and access, recording the change in the
+   * balance history. When the whole account is deleted that entry goes
+   * with the rest of the history.
+   */
+  private async publishRevocation(user: IUser, wallets: string[]): Promise<void> {
+    await InviteManager.getInstance().revokeUnused(user.telegramUserId);
+    await recordBalanceHistory([balanceHistoryEntry(user, {
+      wallets,
+      holdings: { tokens: {}, collections: {} },
+      balance: '0',
+      tier: null,
+      source: 'account',
+    })]);
+    if (!user.hasRequiredBalance) {
+      return;
+    }
+
+    await PermissionEventPublisher.getInstance().publish({
+      type: 'revoked',
+      source: 'account',
+      telegramUserId: user.telegramUserId,
+      walletAddress: user.walletAddress,
+      hasRequiredBalance: false,
+      tier: null,
+      previousTier: user.tier ?? null,
+    });
+  }
+}
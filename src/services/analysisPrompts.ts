@@ -0,0 +1,70 @@
+import { Tweet } from 'agent-twitter-client';
+
+export interface AnalysisMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AnalysisPrompt {
+  version: string;
+  messages: AnalysisMessage[];
+}
+
+/**
+ * Prompt templates by version. Add a new version instead of editing an
+ * existing one, so analyses recorded under a version stay comparable.
+ */
+export const ANALYSIS_PROMPTS: Record<string, (tweet: Tweet) => AnalysisMessage[]> = {
+  v1: (tweet) => [
+    { role: 'system', content: "You are a tweet analyzer with a focus on crypto/memecoin related tweets. Your objective is to analyze the tweet and provide a detailed analysis of the sentiment, score, topics, and summary. You are also responsible for calculating the credibility score of the tweet based on the engagement metrics. Respond only with valid JSON." },
+    {
+      role: 'user',
+      content: `
+      Analyze this crypto/memecoin related tweet: "${tweet.text}"
+      Provide a JSON response with:
+      - sentiment (positive/negative/neutral)
+      - score (0-1, where 1 indicates high potential alpha/opportunity and 0 indicates scam/negative)
+      - topics (array of relevant topics: e.g., presale, launch, airdrop, token, blockchain name, etc.)
+      - summary (brief summary focusing on key trading signals and timeline)
+
+      Example:
+      Tweet: "🚀 $WIF just launched stealth on SOL! LP locked for 1 year, ownership renounced, 1000x potential! CA: EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm"
+      Response:
+      {
+        "sentiment": "positive",
+        "score": 0.8,
+        "topics": ["stealth launch", "ETH", "PEPE", "memecoin", "liquidity locked", "ownership renounced"],
+        "summary": "New memecoin PEPE launched on Ethereum with security features in place. Stealth launch with locked liquidity suggests potential early opportunity."
+      }
+    `,
+    },
+  ],
+};
+
+export function buildAnalysisPrompt(tweet: Tweet, version: string): AnalysisPrompt {
+  const template = ANALYSIS_PROMPTS[version];
+  if (!template) {
+    throw new Error(`Unknown analysis prompt version: ${version}`);
+  }
+  return { version, messages: template(tweet) };
+}
+
+/**
+ * Follow-up to `prompt` asking the model to correct `response`, which
+ * failed validation with `errors`.
+ */
+export function buildRepairPrompt(prompt: AnalysisPrompt, response: string, errors: string[]): AnalysisPrompt {
+  return {
+    version: prompt.version,
+    messages: [
+      ...prompt.messages,
+      { role: 'assistant', content: response },
+      {
+        role: 'user',
+        content: `That response is invalid: ${errors.join('; ')}. ` +
+          'Reply with only the corrected JSON object with sentiment (positive/negative/neutral), ' +
+          'score (a number from 0 to 1), topics (an array of strings) and summary (a string).',
+      },
+    ],
+  };
+}
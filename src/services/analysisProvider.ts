@@ -0,0 +1,132 @@
+import { OpenAI } from 'openai';
+import { Tweet } from 'agent-twitter-client';
+import {
+  ANALYSIS_API_KEY,
+  ANALYSIS_BASE_URL,
+  ANALYSIS_JSON_MODE,
+  ANALYSIS_MODEL,
+  ANALYSIS_PROVIDER,
+  ANALYSIS_TEMPERATURE,
+} from '../settings';
+import { AnalysisPrompt } from './analysisPrompts';
+import { extractTokens } from './tokenExtractor';
+import { AnalyzedTweet } from './tweetAnalyzer';
+
+/** The part of an analysis produced by the provider; credibility and risk are computed locally. */
+export type ProviderAnalysis = Pick<AnalyzedTweet['analysis'], 'sentiment' | 'score' | 'topics' | 'summary'>;
+
+/**
+ * Produces the sentiment, score, topics and summary of a tweet. `analyze`
+ * returns the raw response text, which is expected to be a JSON
+ * `ProviderAnalysis`.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  readonly model: string;
+  analyze(tweet: Tweet, prompt: AnalysisPrompt): Promise<string>;
+}
+
+export interface OpenAIProviderOptions {
+  name?: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  temperature?: number;
+  jsonMode?: boolean; // Send response_format json_object
+}
+
+/** Chat completions against OpenAI or any server exposing the same API. */
+export class OpenAIAnalysisProvider implements AnalysisProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly options: OpenAIProviderOptions) {
+    this.name = options.name ?? 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async analyze(_tweet: Tweet, prompt: AnalysisPrompt): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: prompt.messages,
+      temperature: this.options.temperature,
+      ...(this.options.jsonMode !== false && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return response.choices[0]?.message?.content ?? '';
+  }
+}
+
+const POSITIVE_KEYWORDS = [
+  'launch', 'launched', 'launching', 'stealth', 'presale', 'airdrop', 'whitelist', 'listing', 'listed',
+  'locked', 'renounced', 'burned', 'gem', 'moon', 'pump', 'bullish', 'early', 'ape', '100x', '1000x',
+];
+const NEGATIVE_KEYWORDS = [
+  'rug', 'rugged', 'rugpull', 'scam', 'honeypot', 'dump', 'dumped', 'dumping', 'hack', 'hacked',
+  'exploit', 'drained', 'bearish', 'fake', 'avoid', 'warning', 'sell',
+];
+
+/**
+ * Deterministic keyword scoring that needs no network access, for offline
+ * runs and tests. Much cruder than a model: it only counts bullish and
+ * bearish keywords.
+ */
+export class RuleBasedAnalysisProvider implements AnalysisProvider {
+  readonly name = 'rule-based';
+  readonly model = 'keywords';
+
+  async analyze(tweet: Tweet): Promise<string> {
+    const text = tweet.text ?? '';
+    const words = new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+    const positive = POSITIVE_KEYWORDS.filter(keyword => words.has(keyword));
+    const negative = NEGATIVE_KEYWORDS.filter(keyword => words.has(keyword));
+
+    const score = Math.max(0, Math.min(0.5 + 0.1 * positive.length - 0.2 * negative.length, 1));
+    const sentiment = positive.length > negative.length ? 'positive'
+      : negative.length > positive.length ? 'negative'
+      : 'neutral';
+
+    const analysis: ProviderAnalysis = {
+      sentiment,
+      score: Number(score.toFixed(2)),
+      topics: [...extractTokens(text).cashtags, ...positive, ...negative],
+      summary: text.replace(/\s+/g, ' ').trim().slice(0, 200),
+    };
+    return JSON.stringify(analysis);
+  }
+}
+
+/** Builds the provider selected by `ANALYSIS_PROVIDER`. */
+export function createAnalysisProvider(): AnalysisProvider {
+  switch (ANALYSIS_PROVIDER) {
+    case 'openai':
+      if (!ANALYSIS_API_KEY) {
+        throw new Error('OPENAI_API_KEY is required');
+      }
+      return new OpenAIAnalysisProvider({
+        model: ANALYSIS_MODEL,
+        apiKey: ANALYSIS_API_KEY,
+        temperature: ANALYSIS_TEMPERATURE,
+        jsonMode: ANALYSIS_JSON_MODE,
+      });
+    case 'openai-compatible':
+      if (!ANALYSIS_BASE_URL) {
+        throw new Error('ANALYSIS_BASE_URL is required for the openai-compatible provider');
+      }
+      return new OpenAIAnalysisProvider({
+        name: 'openai-compatible',
+        model: ANALYSIS_MODEL,
+        // Local servers often need no key, but the client refuses to start without one
+        apiKey: ANALYSIS_API_KEY || 'none',
+        baseURL: ANALYSIS_BASE_URL,
+        temperature: ANALYSIS_TEMPERATURE,
+        jsonMode: ANALYSIS_JSON_MODE,
+      });
+    case 'rule-based':
+      return new RuleBasedAnalysisProvider();
+    default:
+      throw new Error(`Unknown analysis provider: ${ANALYSIS_PROVIDER}`);
+  }
+}
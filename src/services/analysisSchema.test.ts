@@ -0,0 +1,49 @@
+import { parseProviderAnalysis } from './analysisSchema';
+
+const parse = (value: unknown) => parseProviderAnalysis(JSON.stringify(value));
+const valid = { sentiment: 'positive', score: 0.8, topics: ['launch'], summary: 'New launch' };
+
+describe('parseProviderAnalysis', () => {
+  it('accepts a valid analysis', () => {
+    expect(parse(valid)).toEqual({ analysis: valid });
+  });
+
+  it('coerces numeric string and percent scores', () => {
+    expect(parse({ ...valid, score: '0.65' }).analysis.score).toBe(0.65);
+    expect(parse({ ...valid, score: '80%' }).analysis.score).toBe(0.8);
+  });
+
+  it('rejects scores outside 0-1', () => {
+    expect(parse({ ...valid, score: 7 }).errors).toEqual(['score must be a number between 0 and 1']);
+    expect(parse({ ...valid, score: 'high' }).errors).toEqual(['score must be a number between 0 and 1']);
+    expect(parse({ ...valid, score: undefined }).errors).toEqual(['score must be a number between 0 and 1']);
+  });
+
+  it('maps sentiment synonyms', () => {
+    expect(parse({ ...valid, sentiment: ' Bullish ' }).analysis.sentiment).toBe('positive');
+    expect(parse({ ...valid, sentiment: 'BEARISH' }).analysis.sentiment).toBe('negative');
+    expect(parse({ ...valid, sentiment: 'mixed' }).analysis.sentiment).toBe('neutral');
+    expect(parse({ ...valid, sentiment: 'excited' }).errors).toEqual(['sentiment must be one of positive, negative, neutral']);
+  });
+
+  it('splits comma-separated topics and drops duplicates', () => {
+    expect(parse({ ...valid, topics: 'launch, SOL,, launch' }).analysis.topics).toEqual(['launch', 'SOL']);
+    expect(parse({ ...valid, topics: [2024, 'airdrop'] }).analysis.topics).toEqual(['2024', 'airdrop']);
+    expect(parse({ ...valid, topics: [{ name: 'launch' }] }).errors).toEqual(['topics must be a list of strings']);
+  });
+
+  it('defaults missing topics and summary', () => {
+    expect(parse({ sentiment: 'neutral', score: 0.5 }).analysis).toEqual({
+      sentiment: 'neutral', score: 0.5, topics: [], summary: '',
+    });
+  });
+
+  it('unwraps fenced JSON', () => {
+    expect(parseProviderAnalysis('```json\n' + JSON.stringify(valid) + '\n```')).toEqual({ analysis: valid });
+  });
+
+  it('rejects responses that are not a JSON object', () => {
+    expect(parseProviderAnalysis('Sure! Here is the analysis').errors).toEqual(['response must be a JSON object']);
+    expect(parse([valid]).errors).toEqual(['response must be a JSON object']);
+  });
+});
@@ -0,0 +1,89 @@
+import { ProviderAnalysis } from './analysisProvider';
+
+const SENTIMENTS: Record<string, ProviderAnalysis['sentiment']> = {
+  positive: 'positive',
+  bullish: 'positive',
+  negative: 'negative',
+  bearish: 'negative',
+  neutral: 'neutral',
+  mixed: 'neutral',
+};
+
+/**
+ * Parses a provider response into a `ProviderAnalysis`. Near misses are
+ * coerced rather than rejected: fenced JSON, numeric strings and
+ * percentages for `score`, synonyms such as "bullish" for `sentiment`, and
+ * comma-separated `topics`. Anything else is reported in `errors`.
+ */
+export function parseProviderAnalysis(raw: string): { analysis?: ProviderAnalysis; errors?: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return { errors: ['response must be a JSON object'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['response must be a JSON object'] };
+  }
+  const value = parsed as Record<string, unknown>;
+
+  const errors: string[] = [];
+
+  const sentiment = typeof value.sentiment === 'string' ? SENTIMENTS[value.sentiment.trim().toLowerCase()] : undefined;
+  if (!sentiment) {
+    errors.push('sentiment must be one of positive, negative, neutral');
+  }
+
+  const score = coerceScore(value.score);
+  if (score === undefined) {
+    errors.push('score must be a number between 0 and 1');
+  }
+
+  let topics: string[] | undefined;
+  if (value.topics === undefined || value.topics === null) {
+    topics = [];
+  } else if (typeof value.topics === 'string') {
+    topics = value.topics.split(',');
+  } else if (Array.isArray(value.topics) && value.topics.every(topic => typeof topic === 'string' || typeof topic === 'number')) {
+    topics = value.topics.map(String);
+  } else {
+    errors.push('topics must be a list of strings');
+  }
+
+  let summary: string | undefined;
+  if (value.summary === undefined || value.summary === null) {
+    summary = '';
+  } else if (typeof value.summary === 'string') {
+    summary = value.summary.trim();
+  } else {
+    errors.push('summary must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    analysis: {
+      sentiment,
+      score,
+      topics: [...new Set(topics.map(topic => topic.trim()).filter(Boolean))],
+      summary,
+    },
+  };
+}
+
+function coerceScore(value: unknown): number | undefined {
+  let score: number;
+  if (typeof value === 'number') {
+    score = value;
+  } else if (typeof value === 'string' && value.trim()) {
+    const percent = value.trim().endsWith('%');
+    score = Number(value.trim().replace(/%$/, ''));
+    if (percent) score /= 100;
+  } else {
+    return undefined;
+  }
+
+  return Number.isFinite(score) && score >= 0 && score <= 1 ? score : undefined;
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+
+export const API_KEY_SCOPES = [
+  'admin:users',
+  'admin:sweep',
+  'admin:search',
+  'invites:write',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface CreateApiKeyInput {
+  name: string;
+  owner: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+}
+
+/**
+ * Issues and verifies API keys. A key reads `dgn_<prefix>_<secret>`: the
+ * prefix identifies the record and only a hash of the secret is stored, so
+ * keys are shown once at creation and cannot be recovered afterwards.
+ */
+export class ApiKeyStore {
+  private static instance: ApiKeyStore;
+  private readonly KEY_PATTERN = /^dgn_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+  private constructor() {}
+
+  public static getInstance(): ApiKeyStore {
+    if (!ApiKeyStore.instance) {
+      ApiKeyStore.instance = new ApiKeyStore();
+    }
+    return ApiKeyStore.instance;
+  }
+
+  /** Creates a key and returns it in plaintext along with its record. */
+  async create(input: CreateApiKeyInput): Promise<{ key: string; apiKey: IApiKey }> {
+    const unknown = input.scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const apiKey = await ApiKey.create({
+      prefix,
+      hash: this.hash(secret),
+      name: input.name,
+      owner: input.owner,
+      scopes: input.scopes,
+      expiresAt: input.expiresAt ?? null,
+    });
+
+    return { key: `dgn_${prefix}_${secret}`, apiKey };
+  }
+
+  /**
+   * Returns the record of a valid key: known, matching secret, not revoked
+   * and not expired. Returns null otherwise.
+   */
+  async verify(key: string, now: Date = new Date()): Promise<IApiKey | null> {
+    const match = this.KEY_PATTERN.exec(key || '');
+    if (!match) {
+      return null;
+    }
+
+    const [, prefix, secret] = match;
+    const apiKey = await ApiKey.findOne({ prefix });
+    if (!apiKey) {
+      return null;
+    }
+
+    const expected = Buffer.from(apiKey.hash, 'hex');
+    const actual = Buffer.from(this.hash(secret), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    return apiKey;
+  }
+
+  /** Records that a key was used. Failures are only logged. */
+  touch(apiKey: IApiKey, now: Date = new Date()): void {
+    ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now } }).catch(error => {
+      console.error(`Error updating last use of API key ${apiKey.prefix}:`, error);
+    });
+  }
+
+  async list(): Promise<IApiKey[]> {
+    return ApiKey.find().sort({ createdAt: -1 });
+  }
+
+  /** Revokes a key by prefix. Returns false if no active key has it. */
+  async revoke(prefix: string, now: Date = new Date()): Promise<boolean> {
+    const result = await ApiKey.updateOne({ prefix, revokedAt: null }, { $set: { revokedAt: now } });
+    return result.modifiedCount > 0;
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import { redis } from '../redis';
+import {
+  AUTH_DOMAIN,
+  AUTH_NONCE_TTL,
+  AUTH_URI,
+  SIWS_CHAIN_ID,
+  SIWS_STATEMENT,
+} from '../settings';
+import { formatSiwsMessage, SiwsMessage, SIWS_ACTION_RESOURCE_PREFIX } from './siws';
+
+export type AuthMessageFormat = 'siws' | 'json';
+
+/**
+ * Message a wallet signs to authenticate a request. The nonce is issued by
+ * `GET /api/auth/challenge` and can only be consumed once. Sign-In-With-Solana
+ * messages are normalized into this shape before validation.
+ */
+export interface AuthMessage {
+  domain: string;
+  action: string;
+  nonce: string;
+  iat: number;
+  exp: number;
+}
+
+interface StoredChallenge {
+  action: string;
+  publicKey?: string;
+  iat: number;
+}
+
+export class AuthChallenge {
+  private static instance: AuthChallenge;
+  private readonly KEY_PREFIX = 'auth:nonce:';
+
+  private constructor() {}
+
+  public static getInstance(): AuthChallenge {
+    if (!AuthChallenge.instance) {
+      AuthChallenge.instance = new AuthChallenge();
+    }
+    return AuthChallenge.instance;
+  }
+
+  /**
+   * Issues a single-use nonce for `action`. When `publicKey` is given the
+   * nonce can only be redeemed by a signature from that wallet.
+   *
+   * For the `siws` format the Sign-In-With-Solana fields are returned so the
+   * wallet can build its own prompt; the full message text is included as
+   * well when the public key is already known.
+   */
+  async issue(action: string, publicKey?: string, format: AuthMessageFormat = 'siws') {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const iat = DateTime.local().toUTC().toUnixInteger();
+    const exp = iat + AUTH_NONCE_TTL;
+
+    const stored: StoredChallenge = { action, publicKey, iat };
+    await redis.set(`${this.KEY_PREFIX}${nonce}`, JSON.stringify(stored), 'EX', AUTH_NONCE_TTL);
+
+    if (format === 'json') {
+      const message: AuthMessage = { domain: AUTH_DOMAIN, action, nonce, iat, exp };
+      return { nonce, format, message: JSON.stringify(message), expiresAt: exp };
+    }
+
+    const siws: Omit<SiwsMessage, 'address'> = {
+      domain: AUTH_DOMAIN,
+      statement: SIWS_STATEMENT,
+      uri: AUTH_URI,
+      version: '1',
+      chainId: SIWS_CHAIN_ID,
+      nonce,
+      issuedAt: DateTime.fromSeconds(iat, { zone: 'utc' }).toISO({ suppressMilliseconds: true }),
+      expirationTime: DateTime.fromSeconds(exp, { zone: 'utc' }).toISO({ suppressMilliseconds: true }),
+      resources: [`${SIWS_ACTION_RESOURCE_PREFIX}${action}`],
+    };
+    const message = publicKey ? formatSiwsMessage({ ...siws, address: publicKey }) : undefined;
+
+    return { nonce, format, siws, message, expiresAt: exp };
+  }
+
+  /**
+   * Atomically removes the nonce and checks that it was issued for the
+   * signed message. Returns an error message, or null if the nonce is valid.
+   */
+  async consume(message: AuthMessage, publicKey: string): Promise<string | null> {
+    if (!message.nonce) {
+      return 'Missing nonce';
+    }
+
+    const raw = await redis.getdel(`${this.KEY_PREFIX}${message.nonce}`);
+    if (!raw) {
+      return 'Unknown or already used nonce';
+    }
+
+    const stored = JSON.parse(raw) as StoredChallenge;
+    if (stored.action !== message.action || stored.iat !== message.iat) {
+      return 'Nonce does not match the signed message';
+    }
+    if (stored.publicKey && stored.publicKey !== publicKey) {
+      return 'Nonce was issued for a different wallet';
+    }
+
+    return null;
+  }
+}
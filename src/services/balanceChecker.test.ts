@@ -0,0 +1,106 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { GatingRuleDefinition } from './gatingEvaluator';
+import { findMetadataAddress } from './nftMetadata';
+
+const connection = {
+  getParsedTokenAccountsByOwner: jest.fn(),
+  getMultipleAccountsInfo: jest.fn(),
+};
+
+jest.mock('../redis', () => ({ redis: {} }));
+jest.mock('../solana', () => ({ SolanaClient: { getInstance: () => connection } }));
+
+import { BalanceChecker } from './balanceChecker';
+
+const address = () => Keypair.generate().publicKey;
+
+// Metaplex metadata account data up to and including the collection field
+function metadataFixture(mint: PublicKey, collection: PublicKey | null, verified = true): Buffer {
+  const string = (value: string) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(value.length);
+    return Buffer.concat([length, Buffer.from(value)]);
+  };
+
+  return Buffer.concat([
+    Buffer.from([4]), // key
+    address().toBuffer(), // update authority
+    mint.toBuffer(),
+    string('Degen #1'),
+    string('DGN'),
+    string('https://example.com/1.json'),
+    Buffer.from([0, 0]), // seller fee basis points
+    Buffer.from([0]), // no creators
+    Buffer.from([0, 1]), // primary sale happened, is mutable
+    Buffer.from([0, 0]), // no edition nonce, no token standard
+    collection ? Buffer.concat([Buffer.from([1, verified ? 1 : 0]), collection.toBuffer()]) : Buffer.from([0]),
+  ]);
+}
+
+function tokenAccount(mint: PublicKey, amount: string, decimals: number) {
+  return { account: { data: { parsed: { info: { mint: mint.toBase58(), tokenAmount: { amount, decimals } } } } } };
+}
+
+describe('BalanceChecker NFT collection gating', () => {
+  const wallet = address();
+  const collection = address();
+  const otherCollection = address();
+  const fungibleMint = address();
+  const nfts = [address(), address(), address(), address()];
+
+  const metadata = new Map<string, Buffer>([
+    [findMetadataAddress(nfts[0]).toBase58(), metadataFixture(nfts[0], collection)],
+    [findMetadataAddress(nfts[1]).toBase58(), metadataFixture(nfts[1], collection)],
+    [findMetadataAddress(nfts[2]).toBase58(), metadataFixture(nfts[2], collection, false)],
+    [findMetadataAddress(nfts[3]).toBase58(), metadataFixture(nfts[3], otherCollection)],
+  ]);
+
+  const rule = (minCount: number): GatingRuleDefinition => ({
+    name: 'collection',
+    tier: 'collector',
+    rank: 1,
+    operator: 'all',
+    conditions: [{ type: 'nft-collection', collection: collection.toBase58(), minCount }],
+  });
+
+  beforeEach(() => {
+    connection.getParsedTokenAccountsByOwner.mockImplementation(async (_owner: PublicKey, { programId }) => ({
+      context: { slot: 100 },
+      value: programId.equals(TOKEN_PROGRAM_ID)
+        ? [...nfts.map(mint => tokenAccount(mint, '1', 0)), tokenAccount(fungibleMint, '1', 0), tokenAccount(address(), '5', 6)]
+        : [],
+    }));
+    connection.getMultipleAccountsInfo.mockImplementation(async (addresses: PublicKey[]) =>
+      addresses.map(metadataAddress => {
+        const data = metadata.get(metadataAddress.toBase58());
+        return data ? { data } : null;
+      })
+    );
+  });
+
+  it('counts only NFTs of the verified collection', async () => {
+    const result = await BalanceChecker.getInstance().checkAccountBalance([wallet.toBase58()], [rule(2)]);
+
+    expect(result.holdings.collections).toEqual({ [collection.toBase58()]: 2 });
+    expect(result.tier).toBe('collector');
+    expect(result.hasMinBalance).toBe(true);
+  });
+
+  it('denies access below the minimum count', async () => {
+    const result = await BalanceChecker.getInstance().checkAccountBalance([wallet.toBase58()], [rule(3)]);
+
+    expect(result.tier).toBeNull();
+    expect(result.hasMinBalance).toBe(false);
+  });
+
+  it('sums NFTs across linked wallets', async () => {
+    const result = await BalanceChecker.getInstance().checkAccountBalance(
+      [wallet.toBase58(), address().toBase58()],
+      [rule(3)],
+    );
+
+    expect(result.holdings.collections).toEqual({ [collection.toBase58()]: 4 });
+    expect(result.tier).toBe('collector');
+  });
+});
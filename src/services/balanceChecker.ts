@@ -1,25 +1,73 @@
 import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  AccountLayout,
+  getAssociatedTokenAddressSync,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
 import { redis } from '../redis';
-import User from '../models/User';
+import { SolanaClient } from '../solana';
+import User, { IUser } from '../models/User';
+import {
+  evaluateGating,
+  GatingRuleDefinition,
+  loadGatingRules,
+  mergeHoldings,
+  minSlot,
+  requiredCollections,
+  requiredMints,
+  serializeHoldings,
+  telegramChatIdForTier,
+  tierRank,
+  WalletHoldings,
+} from './gatingEvaluator';
+import { applyRevocationPolicy, PendingRevocation } from './revocationPolicy';
+import { WalletRegistry } from './walletRegistry';
+import { InviteManager } from './inviteManager';
+import { balanceHistoryEntry, recordBalanceHistory } from './balanceHistory';
+import {
+  PermissionEventPublisher,
+  PermissionEventSource,
+  permissionEventType,
+} from './permissionEvents';
+import { findMetadataAddress, parseMetadataCollection } from './nftMetadata';
+import { chunk, mapWithConcurrency, withRpcBackoff } from './rpcUtils';
+import { formatTokenAmount } from './tokenAmount';
 
-import { 
-  SOLANA_RPC, 
-  TOKEN_MINT, 
-  MIN_BALANCE 
+import {
+  REVOKE_HYSTERESIS,
+  SWEEP_CONCURRENCY,
+  TOKEN_MINT,
 } from '../settings';
 
+// Timings and counters collected for each balance sweep
+export interface SweepMetrics {
+  startedAt: number;
+  durationMs: number;
+  fetchMs: number;
+  writeMs: number;
+  users: number;
+  accountsFetched: number;
+  rpcCalls: number;
+  rpcRetries: number;
+  errors: number;
+  fallbackLookups: number;
+  permissionChanges: number;
+}
+
+// Token programs whose accounts are counted towards a balance
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
 export class BalanceChecker {
   private static instance: BalanceChecker;
   private connection: Connection;
+  private readonly MAX_MULTIPLE_ACCOUNTS = 100; // getMultipleAccountsInfo limit
+  private readonly SWEEP_METRICS_KEY = 'balance:sweep:metrics';
+  private readonly SWEEP_METRICS_HISTORY = 100;
 
   private constructor() {
-    if (!process.env.TOKEN_MINT) {
-      throw new Error('TOKEN_MINT environment variable is required');
-    }
-    if (!process.env.SOLANA_RPC) {
-      throw new Error('SOLANA_RPC environment variable is required');
-    }
-    this.connection = new Connection(SOLANA_RPC);
+    this.connection = SolanaClient.getInstance();
   }
 
   public static getInstance(): BalanceChecker {
@@ -29,95 +77,520 @@ export class BalanceChecker {
     return BalanceChecker.instance;
   }
 
-  async checkSingleWalletBalance(walletAddress: string) {
-    const mintPubkey = new PublicKey(TOKEN_MINT);
-    const walletPubkey = new PublicKey(walletAddress);
-    
-    try {
-      const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
-        walletPubkey,
-        { mint: mintPubkey }
-      );
+  async checkSingleWalletBalance(walletAddress: string, rules?: GatingRuleDefinition[]) {
+    return this.checkAccountBalance([walletAddress], rules);
+  }
+
+  /** Evaluates the combined holdings of every wallet a user has linked. */
+  async checkAccountBalance(walletAddresses: string[], rules?: GatingRuleDefinition[]) {
+    rules = rules ?? await loadGatingRules();
 
-      const balance = tokenAccounts.value[0]?.account.data.parsed.info.tokenAmount.uiAmount || 0;
-      const hasMinBalance = balance >= Number(MIN_BALANCE);
+    try {
+      const holdings = mergeHoldings(await Promise.all(walletAddresses.map(address =>
+        this.getHoldings(address, requiredMints(rules), requiredCollections(rules))
+      )));
+      const { tier, telegramChatId } = evaluateGating(holdings, rules);
+      const balance = this.primaryBalance(holdings, rules);
+      const hasMinBalance = tier !== null;
 
-      return { balance, hasMinBalance };
+      return { balance, hasMinBalance, tier, telegramChatId, holdings };
     } catch (error) {
-      console.error(`Error checking balance for ${walletAddress}:`, error);
+      console.error(`Error checking balance for ${walletAddresses.join(', ')}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Re-evaluates every connected user, summing the holdings of all their
+   * linked wallets. Fungible balances are read from the
+   * wallets' associated token accounts in chunks of 100 through
+   * `getMultipleAccountsInfo`, with at most `SWEEP_CONCURRENCY` requests in
+   * flight; NFT collection holdings still need one lookup per wallet.
+   * Tokens held outside the associated account are only seen by a full
+   * lookup, so any wallet the fast path would downgrade is re-read through
+   * `getParsedTokenAccountsByOwner` before its permissions change.
+   */
   async checkWalletBalances() {
     console.log('Starting wallet balance check...');
-    
-    if (!process.env.TOKEN_MINT) {
-      console.log('No TOKEN_MINT configured, skipping balance check');
+    const startedAt = Date.now();
+
+    const rules = await loadGatingRules();
+    if (rules.length === 0) {
+      console.log('No gating rules configured, skipping balance check');
       return;
     }
 
     const users = await User.find({ walletAddress: { $exists: true } });
-    
+
     if (users.length === 0) {
       console.log('No users with wallet addresses found');
       return;
     }
 
     console.log(`Found ${users.length} users with wallet addresses to check`);
-    const mintPubkey = new PublicKey(process.env.TOKEN_MINT);
+    const metrics: SweepMetrics = {
+      startedAt,
+      durationMs: 0,
+      fetchMs: 0,
+      writeMs: 0,
+      users: users.length,
+      accountsFetched: 0,
+      rpcCalls: 0,
+      rpcRetries: 0,
+      errors: 0,
+      fallbackLookups: 0,
+      permissionChanges: 0,
+    };
+
+    const walletsByUser = await WalletRegistry.getInstance().walletsByUser(users);
+
+    const fetchStartedAt = Date.now();
+    const holdingsByWallet = await this.getHoldingsBatch(
+      [...new Set([...walletsByUser.values()].flat())],
+      requiredMints(rules),
+      requiredCollections(rules),
+      metrics,
+    );
+    metrics.fetchMs = Date.now() - fetchStartedAt;
+
+    const writeStartedAt = Date.now();
     const batch = [];
+    const history = [];
 
     for (const user of users) {
       try {
-        console.log(`Checking balance for wallet: ${user.walletAddress}`);
-        const walletPubkey = new PublicKey(user.walletAddress);
-        
-        // Find token account for this wallet
-        const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
-          walletPubkey,
-          { mint: mintPubkey }
-        );
-
-        const balance = tokenAccounts.value[0]?.account.data.parsed.info.tokenAmount.uiAmount || 0;
-        const hasMinBalance = balance >= Number(MIN_BALANCE);
-        console.log(`Wallet ${user.walletAddress} balance: ${balance} (minimum required: ${MIN_BALANCE})`);
-
-        // Store permission updates in Redis
-        if (user.hasRequiredBalance !== hasMinBalance) {
-          console.log(`Permission change for user ${user.telegramUserId}: ${hasMinBalance ? 'granted' : 'revoked'}`);
-          // Change the Redis key pattern to match what the Telegram bot expects
-          await redis.set(
-            `user:${user.telegramUserId}:permissions`,
-            JSON.stringify({
-              hasRequiredBalance: hasMinBalance,
-              timestamp: Date.now()
-            })
-          );
+        const wallets = walletsByUser.get(String(user._id));
+        // Skip users with a failed lookup rather than under-count them
+        if (wallets.some(address => !holdingsByWallet.has(address))) {
+          continue;
+        }
+        let holdings = mergeHoldings(wallets.map(address => holdingsByWallet.get(address)));
+
+        const currentTier = this.currentTier(user, rules);
+        const fastPath = evaluateGating(holdings, rules, { currentTier, hysteresis: REVOKE_HYSTERESIS });
+        if (tierRank(fastPath.tier, rules) < tierRank(currentTier, rules)) {
+          metrics.fallbackLookups++;
+          holdings = mergeHoldings(await Promise.all(wallets.map(address =>
+            this.getHoldings(address, requiredMints(rules), requiredCollections(rules), metrics)
+          )));
+        }
+
+        const { tier, telegramChatId, pendingRevocation } = await this.resolveUserTier(user, holdings, rules, 'sweep');
+        const balance = this.primaryBalance(holdings, rules);
+        const hasMinBalance = tier !== null;
+
+        history.push(balanceHistoryEntry(user, {
+          wallets,
+          holdings,
+          balance,
+          tier,
+          source: 'sweep',
+          pendingRevocation: !!pendingRevocation,
+        }));
+
+        if (await this.publishPermissionChange(user, tier, telegramChatId, 'sweep')) {
+          metrics.permissionChanges++;
         }
 
         batch.push({
           updateOne: {
-            filter: { _id: user._id },
+            // Skipped if a subscription or admin recheck saved the user since it was loaded,
+            // so this older reading cannot overwrite the newer one
+            filter: { _id: user._id, lastChecked: user.lastChecked ?? null },
             update: {
               $set: {
-                tokenBalance: balance.toString(),
+                tokenBalance: balance,
+                ...this.toHoldingsFields(holdings),
                 hasRequiredBalance: hasMinBalance,
+                tier,
+                pendingRevocation,
                 lastChecked: new Date()
               }
             }
           }
         });
       } catch (error) {
+        metrics.errors++;
         console.error(`Error checking balance for ${user.walletAddress}:`, error);
       }
     }
 
     if (batch.length > 0) {
       console.log(`Updating database with ${batch.length} balance changes`);
-      await User.bulkWrite(batch);
+      const result = await User.bulkWrite(batch);
+      if (result.matchedCount < batch.length) {
+        console.log(`Skipped ${batch.length - result.matchedCount} users re-checked during the sweep`);
+      }
+    }
+    await recordBalanceHistory(history);
+    metrics.writeMs = Date.now() - writeStartedAt;
+    metrics.durationMs = Date.now() - startedAt;
+
+    await this.recordSweepMetrics(metrics);
+    console.log(
+      `Balance check completed in ${metrics.durationMs}ms ` +
+      `(fetch ${metrics.fetchMs}ms, write ${metrics.writeMs}ms, ${metrics.rpcCalls} RPC calls, ` +
+      `${metrics.rpcRetries} retries, ${metrics.fallbackLookups} fallback lookups, ${metrics.errors} errors)`
+    );
+  }
+
+  /**
+   * Re-evaluates the users owning any of `walletAddresses` right away. Used
+   * by the account subscriptions to react to transfers between sweeps.
+   */
+  async recheckWallets(walletAddresses: string[], source: PermissionEventSource = 'subscription'): Promise<void> {
+    const registry = WalletRegistry.getInstance();
+    const users = await registry.findOwners(walletAddresses);
+    if (users.length === 0) {
+      return;
+    }
+
+    const rules = await loadGatingRules();
+    for (const user of users) {
+      try {
+        await this.recheckUser(user, source, rules);
+      } catch (error) {
+        console.error(`Error re-checking balance for ${user.walletAddress}:`, error);
+      }
     }
-    
-    console.log('Balance check completed');
+  }
+
+  /** Re-evaluates a single user across all their wallets and saves the result. */
+  async recheckUser(user: IUser, source: PermissionEventSource, rules?: GatingRuleDefinition[]): Promise<IUser> {
+    rules = rules ?? await loadGatingRules();
+
+    const wallets = await WalletRegistry.getInstance().walletsFor(user);
+    const { balance, holdings } = await this.checkAccountBalance(wallets, rules);
+    const { tier, telegramChatId, pendingRevocation } = await this.resolveUserTier(user, holdings, rules, source);
+
+    const entry = balanceHistoryEntry(user, {
+      wallets,
+      holdings,
+      balance,
+      tier,
+      source,
+      pendingRevocation: !!pendingRevocation,
+    });
+    await this.publishPermissionChange(user, tier, telegramChatId, source);
+
+    user.tokenBalance = balance;
+    user.set(this.toHoldingsFields(holdings));
+    user.hasRequiredBalance = tier !== null;
+    user.tier = tier;
+    user.pendingRevocation = pendingRevocation;
+    user.lastChecked = new Date();
+    await user.save();
+
+    await recordBalanceHistory([entry]);
+    return user;
+  }
+
+  /**
+   * Resolves the tier to store for `user` from fresh holdings. The tier the
+   * user holds gets the hysteresis band, and downgrades go through the
+   * revocation policy, which may keep the current tier for a grace period.
+   * The bot is warned on the first failing check. An active admin override
+   * takes precedence over all of it.
+   */
+  private async resolveUserTier(
+    user: IUser,
+    holdings: WalletHoldings,
+    rules: GatingRuleDefinition[],
+    source: PermissionEventSource,
+    now: Date = new Date(),
+  ) {
+    const override = user.accessOverride;
+    if (override && (!override.expiresAt || override.expiresAt > now)) {
+      const tier = override.type === 'grant' ? override.tier : null;
+      return { tier, telegramChatId: telegramChatIdForTier(tier, rules), pendingRevocation: null };
+    }
+
+    const currentTier = this.currentTier(user, rules);
+    const evaluated = evaluateGating(holdings, rules, { currentTier, hysteresis: REVOKE_HYSTERESIS });
+
+    const decision = applyRevocationPolicy({
+      currentTier,
+      currentRank: tierRank(currentTier, rules),
+      evaluatedTier: evaluated.tier,
+      evaluatedRank: tierRank(evaluated.tier, rules),
+      pending: user.pendingRevocation,
+      now,
+    });
+
+    if (decision.warn) {
+      await this.publishRevocationWarning(user, currentTier, decision.pendingRevocation, source);
+    }
+
+    return {
+      tier: decision.tier,
+      telegramChatId: telegramChatIdForTier(decision.tier, rules),
+      pendingRevocation: decision.pendingRevocation,
+    };
+  }
+
+  /**
+   * Tier the user holds. Users checked before tiers existed only have
+   * `hasRequiredBalance`, so they are treated as holding the lowest tier.
+   */
+  private currentTier(user: IUser, rules: GatingRuleDefinition[]): string | null {
+    if (user.tier) {
+      return user.tier;
+    }
+    if (!user.hasRequiredBalance || rules.length === 0) {
+      return null;
+    }
+    return [...rules].sort((a, b) => a.rank - b.rank)[0].tier;
+  }
+
+  private async publishRevocationWarning(
+    user: IUser,
+    tier: string | null,
+    pending: PendingRevocation,
+    source: PermissionEventSource,
+  ): Promise<void> {
+    console.log(`Revocation warning for user ${user.telegramUserId}: ${tier} -> ${pending.targetTier ?? 'none'}`);
+    await PermissionEventPublisher.getInstance().publish({
+      type: 'warning',
+      source,
+      telegramUserId: user.telegramUserId,
+      walletAddress: user.walletAddress,
+      hasRequiredBalance: tier !== null,
+      tier,
+      previousTier: tier,
+      warning: {
+        targetTier: pending.targetTier,
+        since: pending.since.getTime(),
+        failedChecks: pending.failedChecks,
+      },
+    });
+  }
+
+  /**
+   * Publishes a permission event for the Telegram bot when the user's tier
+   * changed. Returns whether an event was published.
+   */
+  private async publishPermissionChange(
+    user: IUser,
+    tier: string | null,
+    telegramChatId: string | undefined,
+    source: PermissionEventSource,
+  ): Promise<boolean> {
+    const hasMinBalance = tier !== null;
+    const previousTier = user.hasRequiredBalance ? user.tier ?? null : null;
+    if (user.hasRequiredBalance === hasMinBalance && (user.tier ?? null) === tier) {
+      return false;
+    }
+
+    console.log(`Permission change for user ${user.telegramUserId}: ${hasMinBalance ? `granted ${tier}` : 'revoked'}`);
+    await PermissionEventPublisher.getInstance().publish({
+      type: permissionEventType(!!user.hasRequiredBalance, hasMinBalance),
+      source,
+      telegramUserId: user.telegramUserId,
+      walletAddress: user.walletAddress,
+      hasRequiredBalance: hasMinBalance,
+      tier,
+      previousTier,
+      telegramChatId,
+      reason: source === 'admin' ? user.accessOverride?.reason : undefined,
+    });
+
+    if (!hasMinBalance) {
+      await InviteManager.getInstance().revokeUnused(user.telegramUserId);
+    }
+    return true;
+  }
+
+  /** Metrics of the most recent sweeps, newest first. */
+  async getSweepMetrics(limit: number = 20): Promise<SweepMetrics[]> {
+    const entries = await redis.lrange(this.SWEEP_METRICS_KEY, 0, limit - 1);
+    return entries.map(entry => JSON.parse(entry));
+  }
+
+  private async recordSweepMetrics(metrics: SweepMetrics): Promise<void> {
+    await redis
+      .multi()
+      .lpush(this.SWEEP_METRICS_KEY, JSON.stringify(metrics))
+      .ltrim(this.SWEEP_METRICS_KEY, 0, this.SWEEP_METRICS_HISTORY - 1)
+      .exec();
+  }
+
+  /**
+   * Fetches the holdings of many wallets at once. Wallets whose lookups
+   * fail are left out of the returned map.
+   */
+  private async getHoldingsBatch(
+    walletAddresses: string[],
+    mints: string[],
+    collections: string[],
+    metrics: SweepMetrics,
+  ): Promise<Map<string, WalletHoldings>> {
+    const holdingsByWallet = new Map<string, WalletHoldings>();
+    const owners: PublicKey[] = [];
+    for (const address of walletAddresses) {
+      try {
+        owners.push(new PublicKey(address));
+        holdingsByWallet.set(address, { tokens: this.emptyTokens(mints), collections: {} });
+      } catch {
+        metrics.errors++;
+        console.error(`Invalid wallet address: ${address}`);
+      }
+    }
+
+    if (mints.length > 0) {
+      const mintPubkeys = mints.map(mint => new PublicKey(mint));
+      const mintAccounts = await this.rpc(() => this.connection.getMultipleAccountsInfo(mintPubkeys), metrics);
+      // The mint's owner tells whether its accounts live under Token or Token-2022
+      const mintInfo = mintAccounts.map(account => ({
+        decimals: account ? MintLayout.decode(account.data).decimals : 0,
+        programId: account?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID,
+      }));
+
+      // One associated token account per (wallet, mint) pair
+      const targets = owners.flatMap(owner => mintPubkeys.map((mint, mintIndex) => ({
+        owner: owner.toBase58(),
+        mintIndex,
+        address: getAssociatedTokenAddressSync(mint, owner, true, mintInfo[mintIndex].programId),
+      })));
+
+      await mapWithConcurrency(chunk(targets, this.MAX_MULTIPLE_ACCOUNTS), SWEEP_CONCURRENCY, async (targetChunk) => {
+        try {
+          const { context, value: accounts } = await this.rpc(() =>
+            this.connection.getMultipleAccountsInfoAndContext(targetChunk.map(target => target.address)), metrics
+          );
+          metrics.accountsFetched += targetChunk.length;
+
+          accounts.forEach((account, i) => {
+            const { owner, mintIndex } = targetChunk[i];
+            const holdings = holdingsByWallet.get(owner);
+            if (!holdings) return;
+            holdings.slot = minSlot(holdings.slot, context.slot);
+            if (!account) return;
+            const { amount } = AccountLayout.decode(account.data);
+            holdings.tokens[mints[mintIndex]] = {
+              amount,
+              decimals: mintInfo[mintIndex].decimals,
+            };
+          });
+        } catch (error) {
+          metrics.errors++;
+          console.error('Error fetching token account chunk:', error);
+          // Drop the affected wallets rather than treating them as empty
+          targetChunk.forEach(target => holdingsByWallet.delete(target.owner));
+        }
+      });
+    }
+
+    if (collections.length > 0) {
+      await mapWithConcurrency([...holdingsByWallet.keys()], SWEEP_CONCURRENCY, async (address) => {
+        try {
+          const nftHoldings = await this.getHoldings(address, [], collections, metrics);
+          const holdings = holdingsByWallet.get(address);
+          if (holdings) {
+            holdings.collections = nftHoldings.collections;
+            holdings.slot = minSlot(holdings.slot, nftHoldings.slot);
+          }
+        } catch (error) {
+          metrics.errors++;
+          console.error(`Error checking NFT holdings for ${address}:`, error);
+          holdingsByWallet.delete(address);
+        }
+      });
+    }
+
+    return holdingsByWallet;
+  }
+
+  /**
+   * Reads every token account of the wallet under both the Token and
+   * Token-2022 programs and sums the raw balances of the mints referenced by
+   * the gating rules. NFTs are counted per verified Metaplex collection when
+   * collections are gated.
+   */
+  private async getHoldings(
+    walletAddress: string,
+    mints: string[],
+    collections: string[] = [],
+    metrics?: SweepMetrics,
+  ): Promise<WalletHoldings> {
+    const walletPubkey = new PublicKey(walletAddress);
+    const tokenAccounts = await Promise.all(TOKEN_PROGRAMS.map(programId =>
+      this.rpc(() => this.connection.getParsedTokenAccountsByOwner(walletPubkey, { programId }), metrics)
+    ));
+
+    const tokens = this.emptyTokens(mints);
+    const nftMints: PublicKey[] = [];
+    for (const { account } of tokenAccounts.flatMap(accounts => accounts.value)) {
+      const { mint, tokenAmount } = account.data.parsed.info;
+      if (mint in tokens) {
+        tokens[mint] = {
+          amount: tokens[mint].amount + BigInt(tokenAmount.amount),
+          decimals: tokenAmount.decimals,
+        };
+      }
+      if (tokenAmount.decimals === 0 && tokenAmount.amount === '1') {
+        nftMints.push(new PublicKey(mint));
+      }
+    }
+
+    const collectionCounts = collections.length > 0
+      ? await this.countCollectionNfts(nftMints, collections, metrics)
+      : {};
+
+    return {
+      tokens,
+      collections: collectionCounts,
+      slot: minSlot(...tokenAccounts.map(accounts => accounts.context.slot)),
+    };
+  }
+
+  /**
+   * Looks up the metadata of each NFT mint and counts the ones that belong
+   * to a verified collection among `collections`.
+   */
+  private async countCollectionNfts(
+    nftMints: PublicKey[],
+    collections: string[],
+    metrics?: SweepMetrics,
+  ): Promise<Record<string, number>> {
+    const counts: Record<string, number> = Object.fromEntries(collections.map(collection => [collection, 0]));
+    const metadataAddresses = nftMints.map(mint => findMetadataAddress(mint));
+
+    for (const addresses of chunk(metadataAddresses, this.MAX_MULTIPLE_ACCOUNTS)) {
+      const accounts = await this.rpc(() => this.connection.getMultipleAccountsInfo(addresses), metrics);
+
+      for (const account of accounts) {
+        if (!account) continue;
+        const collection = parseMetadataCollection(account.data);
+        if (collection?.verified && collection.key in counts) {
+          counts[collection.key]++;
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  // RPC call with rate-limit backoff, counted in the sweep metrics when given
+  private rpc<T>(call: () => Promise<T>, metrics?: SweepMetrics): Promise<T> {
+    if (metrics) metrics.rpcCalls++;
+    return withRpcBackoff(call, () => {
+      if (metrics) metrics.rpcRetries++;
+    });
+  }
+
+  private emptyTokens(mints: string[]): WalletHoldings['tokens'] {
+    return Object.fromEntries(mints.map(mint => [mint, { amount: 0n, decimals: 0 }]));
+  }
+
+  // Balance reported as `tokenBalance`: the legacy mint if configured, else the first gated mint
+  private primaryBalance(holdings: WalletHoldings, rules: GatingRuleDefinition[]): string {
+    const mint = TOKEN_MINT || requiredMints(rules)[0];
+    return holdings.tokens[mint] ? formatTokenAmount(holdings.tokens[mint]) : '0';
+  }
+
+  // User fields persisting the holdings, stored as exact decimal strings like tokenBalance
+  toHoldingsFields(holdings: WalletHoldings) {
+    const { tokens, collections } = serializeHoldings(holdings);
+    return { holdings: tokens, nftHoldings: collections };
   }
 }
@@ -0,0 +1,92 @@
+import { FilterQuery } from 'mongoose';
+import BalanceHistory, { BalanceHistorySource, IBalanceHistory } from '../models/BalanceHistory';
+import { IUser } from '../models/User';
+import { serializeHoldings, WalletHoldings } from './gatingEvaluator';
+import { permissionEventType } from './permissionEvents';
+
+export interface BalanceReading {
+  wallets: string[];
+  holdings: WalletHoldings;
+  balance: string;
+  tier: string | null;
+  source: BalanceHistorySource;
+  pendingRevocation?: boolean;
+}
+
+export interface BalanceHistoryQuery {
+  source?: BalanceHistorySource;
+  changesOnly?: boolean;
+  since?: Date;
+  until?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Builds the history entry for a reading. Must be called before the user's
+ * stored tier is updated, as the transition is computed against it.
+ */
+export function balanceHistoryEntry(user: IUser, reading: BalanceReading) {
+  const { tokens, collections } = serializeHoldings(reading.holdings);
+  const hasRequiredBalance = reading.tier !== null;
+  const changed = !!user.hasRequiredBalance !== hasRequiredBalance || (user.tier ?? null) !== reading.tier;
+
+  return {
+    telegramUserId: user.telegramUserId,
+    walletAddress: user.walletAddress,
+    wallets: reading.wallets,
+    source: reading.source,
+    slot: reading.holdings.slot,
+    balance: reading.balance,
+    holdings: tokens,
+    nftHoldings: collections,
+    tier: reading.tier,
+    previousTier: user.hasRequiredBalance ? user.tier ?? null : null,
+    hasRequiredBalance,
+    change: changed ? permissionEventType(!!user.hasRequiredBalance, hasRequiredBalance) : null,
+    pendingRevocation: !!reading.pendingRevocation,
+    reason: user.accessOverride?.reason,
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Appends entries to the history. Failures are only logged so an audit
+ * write never blocks a permission update.
+ */
+export async function recordBalanceHistory(entries: ReturnType<typeof balanceHistoryEntry>[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  try {
+    await BalanceHistory.insertMany(entries, { ordered: false });
+  } catch (error) {
+    console.error('Error recording balance history:', error);
+  }
+}
+
+/** A page of a user's history, newest first. */
+export async function queryBalanceHistory(
+  telegramUserId: number,
+  query: BalanceHistoryQuery = {},
+): Promise<{ entries: IBalanceHistory[]; total: number }> {
+  const page = Math.max(1, query.page ?? 1);
+  const limit = Math.max(1, query.limit ?? 50);
+
+  const filter: FilterQuery<IBalanceHistory> = { telegramUserId };
+  if (query.source) filter.source = query.source;
+  if (query.changesOnly) filter.change = { $ne: null };
+  if (query.since || query.until) {
+    filter.createdAt = {
+      ...(query.since ? { $gte: query.since } : {}),
+      ...(query.until ? { $lt: query.until } : {}),
+    };
+  }
+
+  const [entries, total] = await Promise.all([
+    BalanceHistory.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+    BalanceHistory.countDocuments(filter),
+  ]);
+  return { entries, total };
+}
@@ -0,0 +1,171 @@
+import { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js';
+import { AccountLayout, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { SolanaClient } from '../solana';
+import { BalanceChecker } from './balanceChecker';
+import { loadGatingRules, requiredMints } from './gatingEvaluator';
+import {
+  SUBSCRIPTION_FALLBACK_POLL_INTERVAL,
+  SUBSCRIPTION_HEARTBEAT_TIMEOUT,
+} from '../settings';
+
+/**
+ * Watches the token accounts of every gated mint over the RPC websocket and
+ * re-checks the owning wallets as soon as one changes, instead of waiting
+ * for the next sweep. Slot notifications act as a heartbeat: when they stop
+ * arriving the websocket is considered down, `poll` is run on a short
+ * interval and the subscriptions are re-created until updates resume.
+ *
+ * NFT collection rules are not covered and still rely on sweeps.
+ */
+export class BalanceSubscriber {
+  private static instance: BalanceSubscriber;
+  private connection: Connection;
+  private subscriptionIds: number[] = [];
+  private slotSubscriptionId: number | null = null;
+  private pendingWallets = new Set<string>();
+  private lastHeartbeat = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private poll: () => Promise<void>;
+  private readonly FLUSH_DELAY = 2000; // Debounce bursts of account updates
+
+  private constructor() {
+    this.connection = SolanaClient.getInstance();
+  }
+
+  public static getInstance(): BalanceSubscriber {
+    if (!BalanceSubscriber.instance) {
+      BalanceSubscriber.instance = new BalanceSubscriber();
+    }
+    return BalanceSubscriber.instance;
+  }
+
+  /**
+   * Starts the subscriptions. `poll` runs a full sweep and is used while the
+   * websocket is down.
+   */
+  public async start(poll: () => Promise<void>): Promise<void> {
+    this.poll = poll;
+    this.lastHeartbeat = Date.now();
+    if (!(await this.subscribe())) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      this.checkHeartbeat().catch(error => console.error('Error checking subscription heartbeat:', error));
+    }, (SUBSCRIPTION_HEARTBEAT_TIMEOUT * 1000) / 2);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.stopPolling();
+    this.heartbeatTimer = null;
+    this.flushTimer = null;
+    await this.unsubscribe();
+  }
+
+  // Returns false when there is nothing to subscribe to
+  private async subscribe(): Promise<boolean> {
+    const mints = requiredMints(await loadGatingRules());
+    if (mints.length === 0) {
+      console.log('No gated mints, balance subscriptions disabled');
+      return false;
+    }
+
+    for (const mint of mints) {
+      const mintPubkey = new PublicKey(mint);
+      const mintAccount = await this.connection.getAccountInfo(mintPubkey);
+      const programId = mintAccount?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+      // Token accounts start with the mint address
+      const filters: GetProgramAccountsFilter[] = [{ memcmp: { offset: 0, bytes: mintPubkey.toBase58() } }];
+      if (programId.equals(TOKEN_PROGRAM_ID)) {
+        filters.push({ dataSize: AccountLayout.span });
+      }
+
+      const subscriptionId = this.connection.onProgramAccountChange(
+        programId,
+        ({ accountInfo }) => this.handleAccountChange(accountInfo.data),
+        { commitment: 'confirmed', filters },
+      );
+      this.subscriptionIds.push(subscriptionId);
+    }
+
+    this.slotSubscriptionId = this.connection.onSlotChange(() => {
+      this.lastHeartbeat = Date.now();
+    });
+
+    console.log(`Subscribed to token account changes for ${mints.length} mints`);
+    return true;
+  }
+
+  private async unsubscribe(): Promise<void> {
+    const subscriptionIds = this.subscriptionIds;
+    this.subscriptionIds = [];
+    await Promise.all(subscriptionIds.map(id =>
+      this.connection.removeProgramAccountChangeListener(id).catch(() => undefined)
+    ));
+
+    if (this.slotSubscriptionId !== null) {
+      await this.connection.removeSlotChangeListener(this.slotSubscriptionId).catch(() => undefined);
+      this.slotSubscriptionId = null;
+    }
+  }
+
+  private handleAccountChange(data: Buffer): void {
+    try {
+      const { owner } = AccountLayout.decode(data);
+      this.pendingWallets.add(owner.toBase58());
+    } catch (error) {
+      console.error('Error decoding token account update:', error);
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.FLUSH_DELAY);
+    }
+  }
+
+  private async flush(): Promise<void> {
+    this.flushTimer = null;
+    const wallets = [...this.pendingWallets];
+    this.pendingWallets.clear();
+
+    try {
+      await BalanceChecker.getInstance().recheckWallets(wallets);
+    } catch (error) {
+      console.error('Error re-checking wallets from subscription:', error);
+    }
+  }
+
+  private async checkHeartbeat(): Promise<void> {
+    const isStale = Date.now() - this.lastHeartbeat > SUBSCRIPTION_HEARTBEAT_TIMEOUT * 1000;
+
+    if (isStale) {
+      if (!this.pollTimer) {
+        console.warn('Balance subscription websocket appears down, falling back to polling');
+        this.pollTimer = setInterval(() => {
+          this.poll().catch(error => console.error('Error in fallback balance poll:', error));
+        }, SUBSCRIPTION_FALLBACK_POLL_INTERVAL * 1000);
+      }
+      // Re-create the subscriptions; web3.js reconnects the socket on demand
+      await this.unsubscribe();
+      await this.subscribe();
+      return;
+    }
+
+    if (this.pollTimer) {
+      console.log('Balance subscription websocket recovered, stopping fallback polling');
+      this.stopPolling();
+      // Catch up on changes missed while the socket was down
+      await this.poll();
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+}
@@ -0,0 +1,183 @@
+import GatingRule, { GatingCondition } from '../models/GatingRule';
+import { TOKEN_MINT, MIN_BALANCE } from '../settings';
+import { formatTokenAmount, parseTokenAmount, TokenAmount } from './tokenAmount';
+
+// Plain rule data, as loaded from MongoDB or derived from the environment
+export interface GatingRuleDefinition {
+  name: string;
+  tier: string;
+  rank: number;
+  operator: 'any' | 'all';
+  conditions: GatingCondition[];
+  telegramChatId?: string;
+}
+
+// What a wallet holds: raw fungible balances keyed by mint, NFT counts keyed by collection
+export interface WalletHoldings {
+  tokens: Record<string, TokenAmount>;
+  collections: Record<string, number>;
+  slot?: number; // Oldest RPC context slot the holdings were read at
+}
+
+export interface GatingOptions {
+  /** Tier the wallet currently holds; it and lower tiers get the hysteresis band. */
+  currentTier?: string | null;
+  /** Fraction the fungible thresholds of held tiers are lowered by, e.g. 0.05. */
+  hysteresis?: number;
+}
+
+export interface GatingResult {
+  tier: string | null;
+  telegramChatId?: string;
+  matchedRules: string[];
+}
+
+export const DEFAULT_TIER = 'holder';
+
+/**
+ * Loads the enabled gating rules, highest rank first. When no rule is stored
+ * in MongoDB the legacy `TOKEN_MINT`/`MIN_BALANCE` pair is used as a single
+ * rule so existing deployments keep working.
+ */
+export async function loadGatingRules(): Promise<GatingRuleDefinition[]> {
+  const rules = await GatingRule.find({ enabled: true }).sort({ rank: -1 }).lean();
+
+  if (rules.length > 0) {
+    return rules.map(rule => ({
+      name: rule.name,
+      tier: rule.tier,
+      rank: rule.rank,
+      operator: rule.operator,
+      conditions: rule.conditions,
+      telegramChatId: rule.telegramChatId,
+    }));
+  }
+
+  if (!TOKEN_MINT) {
+    return [];
+  }
+
+  return [{
+    name: 'default',
+    tier: DEFAULT_TIER,
+    rank: 0,
+    operator: 'all',
+    conditions: [{ type: 'spl-token', mint: TOKEN_MINT, minBalance: MIN_BALANCE }],
+  }];
+}
+
+/** Every fungible mint referenced by at least one rule. */
+export function requiredMints(rules: GatingRuleDefinition[]): string[] {
+  return [...new Set(rules.flatMap(rule => rule.conditions
+    .filter(condition => condition.type === 'spl-token')
+    .map(condition => condition.mint)))];
+}
+
+/** Every NFT collection referenced by at least one rule. */
+export function requiredCollections(rules: GatingRuleDefinition[]): string[] {
+  return [...new Set(rules.flatMap(rule => rule.conditions
+    .filter(condition => condition.type === 'nft-collection')
+    .map(condition => condition.collection)))];
+}
+
+/** Position of `tier` in the rule ranking, -Infinity when the wallet holds no tier. */
+export function tierRank(tier: string | null | undefined, rules: GatingRuleDefinition[]): number {
+  const ranks = rules.filter(rule => rule.tier === tier).map(rule => rule.rank);
+  return ranks.length > 0 ? Math.max(...ranks) : -Infinity;
+}
+
+/** Telegram group granted by `tier`, if any. */
+export function telegramChatIdForTier(tier: string | null, rules: GatingRuleDefinition[]): string | undefined {
+  return [...rules]
+    .sort((a, b) => b.rank - a.rank)
+    .find(rule => rule.tier === tier && rule.telegramChatId)?.telegramChatId;
+}
+
+/** Sums the holdings of several wallets owned by the same user. */
+export function mergeHoldings(walletHoldings: WalletHoldings[]): WalletHoldings {
+  const merged: WalletHoldings = { tokens: {}, collections: {} };
+
+  for (const holdings of walletHoldings) {
+    for (const [mint, { amount, decimals }] of Object.entries(holdings.tokens)) {
+      const current = merged.tokens[mint];
+      merged.tokens[mint] = {
+        amount: (current?.amount ?? 0n) + amount,
+        // Empty balances may carry 0 decimals, so keep any known precision
+        decimals: Math.max(current?.decimals ?? 0, decimals),
+      };
+    }
+    for (const [collection, count] of Object.entries(holdings.collections)) {
+      merged.collections[collection] = (merged.collections[collection] ?? 0) + count;
+    }
+    merged.slot = minSlot(merged.slot, holdings.slot);
+  }
+
+  return merged;
+}
+
+/** Lowest of the known slots, so merged holdings never claim to be newer than any read. */
+export function minSlot(...slots: (number | undefined)[]): number | undefined {
+  const known = slots.filter((slot): slot is number => slot !== undefined);
+  return known.length > 0 ? Math.min(...known) : undefined;
+}
+
+/** JSON-friendly copy of the holdings, with balances as exact decimal strings. */
+export function serializeHoldings(holdings: WalletHoldings) {
+  return {
+    tokens: Object.fromEntries(
+      Object.entries(holdings.tokens).map(([mint, amount]) => [mint, formatTokenAmount(amount)])
+    ),
+    collections: holdings.collections,
+  };
+}
+
+/**
+ * Resolves the tier a wallet qualifies for. Rules are checked in rank order
+ * and the highest ranked matching rule decides the tier. With a hysteresis
+ * band, a wallet keeps the tier it holds until its balance drops below the
+ * lowered threshold, so small dips do not flip access back and forth.
+ */
+export function evaluateGating(
+  holdings: WalletHoldings,
+  rules: GatingRuleDefinition[],
+  options: GatingOptions = {},
+): GatingResult {
+  const heldRank = tierRank(options.currentTier, rules);
+  const matched = [...rules]
+    .sort((a, b) => b.rank - a.rank)
+    .filter(rule => ruleMatches(rule, holdings, rule.rank <= heldRank ? options.hysteresis ?? 0 : 0));
+
+  if (matched.length === 0) {
+    return { tier: null, matchedRules: [] };
+  }
+
+  return {
+    tier: matched[0].tier,
+    telegramChatId: matched[0].telegramChatId,
+    matchedRules: matched.map(rule => rule.name),
+  };
+}
+
+function ruleMatches(rule: GatingRuleDefinition, holdings: WalletHoldings, hysteresis: number): boolean {
+  if (rule.conditions.length === 0) {
+    return false;
+  }
+
+  const results = rule.conditions.map(condition => conditionMatches(condition, holdings, hysteresis));
+  return rule.operator === 'all' ? results.every(Boolean) : results.some(Boolean);
+}
+
+// NFT counts are whole numbers, so the hysteresis band only applies to fungible balances
+function conditionMatches(condition: GatingCondition, holdings: WalletHoldings, hysteresis: number): boolean {
+  if (condition.type === 'nft-collection') {
+    return (holdings.collections[condition.collection] || 0) >= (condition.minCount ?? 1);
+  }
+  const held = holdings.tokens[condition.mint];
+  // Empty balances may not know the mint's decimals, so compare numerically
+  if (!held || held.amount === 0n) {
+    return Number(condition.minBalance) <= 0;
+  }
+  const threshold = parseTokenAmount(condition.minBalance, held.decimals);
+  const scale = BigInt(Math.round((1 - hysteresis) * 10000));
+  return held.amount >= (threshold * scale) / 10000n;
+}
@@ -0,0 +1,94 @@
+import { InMemoryTelegramGateway, TelegramClient } from '../telegram';
+import { IUser } from '../models/User';
+
+// Minimal in-memory stand-in for the Invite model, supporting the queries InviteManager makes
+jest.mock('../models/Invite', () => {
+  const invites: any[] = [];
+  const matches = (invite: any, filter: Record<string, any>) => Object.entries(filter).every(([key, condition]) => {
+    if (condition === null) return invite[key] == null;
+    if (condition?.$gt !== undefined) return invite[key] > condition.$gt;
+    return invite[key] === condition;
+  });
+  const newest = (found: any[]) => found.sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
+
+  return {
+    __esModule: true,
+    invites,
+    default: {
+      create: async (fields: any) => {
+        const invite = { ...fields, createdAt: new Date(), save: async () => invite };
+        invites.push(invite);
+        return invite;
+      },
+      find: async (filter: any) => invites.filter(invite => matches(invite, filter)),
+      findOne: (filter: any) => ({ sort: async () => newest(invites.filter(invite => matches(invite, filter))) }),
+      findOneAndUpdate: async (filter: any, update: any) => {
+        const invite = invites.find(candidate => matches(candidate, filter));
+        return invite ? Object.assign(invite, update.$set) : null;
+      },
+    },
+  };
+});
+
+import { InviteManager } from './inviteManager';
+
+const { invites } = jest.requireMock('../models/Invite');
+const CHAT_ID = '-1001234567890';
+const user = (telegramUserId: number) => ({ telegramUserId } as IUser);
+
+describe('InviteManager', () => {
+  let gateway: InMemoryTelegramGateway;
+
+  beforeEach(() => {
+    invites.length = 0;
+    gateway = new InMemoryTelegramGateway();
+    TelegramClient.setInstance(gateway);
+  });
+
+  it('mints a single-use link with an expiry', async () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    const invite = await InviteManager.getInstance().issue(user(1), CHAT_ID, now);
+
+    const link = gateway.links.get(invite.inviteLink);
+    expect(link).toMatchObject({ chatId: CHAT_ID, memberLimit: 1, revoked: false });
+    expect(link.expireDate).toBe(now.getTime() / 1000 + 3600);
+    expect(invite.expiresAt).toEqual(new Date(now.getTime() + 3600 * 1000));
+  });
+
+  it('reuses the active invite instead of minting another', async () => {
+    const manager = InviteManager.getInstance();
+    const first = await manager.issue(user(1), CHAT_ID);
+    const second = await manager.issue(user(1), CHAT_ID);
+
+    expect(second.inviteLink).toBe(first.inviteLink);
+    expect(gateway.links.size).toBe(1);
+  });
+
+  it('mints a new invite once the previous one expired', async () => {
+    const manager = InviteManager.getInstance();
+    const first = await manager.issue(user(1), CHAT_ID, new Date('2025-01-01T00:00:00Z'));
+    const second = await manager.issue(user(1), CHAT_ID, new Date('2025-01-01T02:00:00Z'));
+
+    expect(second.inviteLink).not.toBe(first.inviteLink);
+  });
+
+  it('marks an invite used only for the user it was minted for', async () => {
+    const manager = InviteManager.getInstance();
+    const invite = await manager.issue(user(1), CHAT_ID);
+
+    expect(await manager.markUsed(invite.inviteLink, 2)).toBeNull();
+    expect((await manager.markUsed(invite.inviteLink, 1)).usedAt).toBeInstanceOf(Date);
+  });
+
+  it('revokes unused invites when the user loses access', async () => {
+    const manager = InviteManager.getInstance();
+    const used = await manager.issue(user(1), CHAT_ID);
+    await manager.markUsed(used.inviteLink, 1);
+    const unused = await manager.issue(user(1), '-1009876543210');
+
+    expect(await manager.revokeUnused(1)).toBe(1);
+    expect(gateway.links.get(unused.inviteLink).revoked).toBe(true);
+    expect(gateway.links.get(used.inviteLink).revoked).toBe(false);
+    expect(unused.revokedAt).toBeInstanceOf(Date);
+  });
+});
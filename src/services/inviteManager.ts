@@ -0,0 +1,86 @@
+import Invite, { IInvite } from '../models/Invite';
+import { IUser } from '../models/User';
+import { TelegramClient } from '../telegram';
+import { INVITE_MEMBER_LIMIT, INVITE_TTL } from '../settings';
+
+/**
+ * Mints one-time invite links per user and chat. Links expire after
+ * `INVITE_TTL`, are marked used once the bot sees the user join, and unused
+ * links are revoked as soon as the user loses access.
+ */
+export class InviteManager {
+  private static instance: InviteManager;
+
+  private constructor() {}
+
+  public static getInstance(): InviteManager {
+    if (!InviteManager.instance) {
+      InviteManager.instance = new InviteManager();
+    }
+    return InviteManager.instance;
+  }
+
+  /** Returns the user's active invite for `chatId`, minting a new one if none is left. */
+  async issue(user: IUser, chatId: string, now: Date = new Date()): Promise<IInvite> {
+    const active = await Invite.findOne({
+      telegramUserId: user.telegramUserId,
+      chatId,
+      usedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    }).sort({ createdAt: -1 });
+    if (active) {
+      return active;
+    }
+
+    const expiresAt = new Date(now.getTime() + INVITE_TTL * 1000);
+    const link = await TelegramClient.getInstance().createInviteLink(chatId, {
+      name: `user ${user.telegramUserId}`,
+      expireDate: Math.floor(expiresAt.getTime() / 1000),
+      memberLimit: INVITE_MEMBER_LIMIT,
+    });
+
+    return Invite.create({
+      telegramUserId: user.telegramUserId,
+      chatId,
+      inviteLink: link.inviteLink,
+      expiresAt,
+      memberLimit: INVITE_MEMBER_LIMIT,
+    });
+  }
+
+  /**
+   * Records that `telegramUserId` joined through `inviteLink`. Returns null
+   * if the link is unknown or was minted for another user.
+   */
+  async markUsed(inviteLink: string, telegramUserId: number, now: Date = new Date()): Promise<IInvite | null> {
+    return Invite.findOneAndUpdate(
+      { inviteLink, telegramUserId },
+      { $set: { usedAt: now } },
+      { new: true },
+    );
+  }
+
+  /** Revokes every unused, unexpired invite of the user. Returns how many were revoked. */
+  async revokeUnused(telegramUserId: number, now: Date = new Date()): Promise<number> {
+    const invites = await Invite.find({
+      telegramUserId,
+      usedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    });
+
+    let revoked = 0;
+    for (const invite of invites) {
+      try {
+        await TelegramClient.getInstance().revokeInviteLink(invite.chatId, invite.inviteLink);
+        invite.revokedAt = now;
+        await invite.save();
+        revoked++;
+      } catch (error) {
+        console.error(`Error revoking invite ${invite.inviteLink}:`, error);
+      }
+    }
+    return revoked;
+  }
+}
@@ -0,0 +1,57 @@
+import { PublicKey } from '@solana/web3.js';
+
+export const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+export interface MetadataCollection {
+  key: string;
+  verified: boolean;
+}
+
+/** Derives the Metaplex metadata account of a mint. */
+export function findMetadataAddress(mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METADATA_PROGRAM_ID,
+  );
+  return address;
+}
+
+/**
+ * Reads the `collection` field of a Metaplex metadata account. Only the
+ * fields leading up to it are decoded; returns null when the account has no
+ * collection or is too short to contain one (older metadata versions).
+ */
+export function parseMetadataCollection(data: Buffer): MetadataCollection | null {
+  let offset = 1 + 32 + 32; // key, update authority, mint
+
+  // name, symbol, uri
+  for (let i = 0; i < 3; i++) {
+    if (offset + 4 > data.length) return null;
+    offset += 4 + data.readUInt32LE(offset);
+  }
+  offset += 2; // seller fee basis points
+
+  // creators: Option<Vec<Creator>>, each creator is address + verified + share
+  if (offset + 1 > data.length) return null;
+  if (data[offset++] === 1) {
+    if (offset + 4 > data.length) return null;
+    offset += 4 + data.readUInt32LE(offset) * 34;
+  }
+  offset += 2; // primary sale happened, is mutable
+
+  // edition nonce and token standard: Option<u8>
+  for (let i = 0; i < 2; i++) {
+    if (offset + 1 > data.length) return null;
+    if (data[offset++] === 1) offset += 1;
+  }
+
+  // collection: Option<{ verified: bool, key: Pubkey }>
+  if (offset + 1 > data.length || data[offset] !== 1) return null;
+  offset += 1;
+  if (offset + 33 > data.length) return null;
+
+  return {
+    verified: data[offset] === 1,
+    key: new PublicKey(data.subarray(offset + 1, offset + 33)).toBase58(),
+  };
+}
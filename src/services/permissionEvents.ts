@@ -0,0 +1,215 @@
+import Redis from 'ioredis';
+import { redis } from '../redis';
+
+/**
+ * Every permission change for the Telegram bot goes through this Redis
+ * Stream. The bot reads it with a consumer group and acknowledges each
+ * entry, so after a restart it resumes from its last processed ID.
+ */
+export const PERMISSION_EVENTS_STREAM = 'telegram:permission-events';
+export const PERMISSION_EVENT_VERSION = 1;
+
+export type PermissionEventType = 'granted' | 'revoked' | 'tier-changed' | 'warning';
+export type PermissionEventSource = 'connect' | 'sweep' | 'subscription' | 'account' | 'admin';
+
+export interface PermissionEvent {
+  version: typeof PERMISSION_EVENT_VERSION;
+  type: PermissionEventType;
+  source: PermissionEventSource;
+  telegramUserId: number;
+  walletAddress?: string;
+  hasRequiredBalance: boolean;
+  tier: string | null;
+  previousTier: string | null;
+  telegramChatId?: string;
+  // Set on `warning` events: the downgrade that will apply after the grace period
+  warning?: {
+    targetTier: string | null;
+    since: number;
+    failedChecks: number;
+  };
+  reason?: string; // Set on events caused by an admin override
+  timestamp: number;
+}
+
+export type PermissionEventInput = Omit<PermissionEvent, 'version' | 'timestamp'>;
+
+export interface StreamEntry<T> {
+  id: string;
+  event: T;
+}
+
+/** Classifies a permission transition. */
+export function permissionEventType(hadAccess: boolean, hasAccess: boolean): PermissionEventType {
+  if (hasAccess && !hadAccess) return 'granted';
+  if (!hasAccess) return 'revoked';
+  return 'tier-changed';
+}
+
+export class PermissionEventPublisher {
+  private static instance: PermissionEventPublisher;
+  private readonly MAX_LENGTH = 100000; // Approximate number of entries kept in the stream
+
+  private constructor() {}
+
+  public static getInstance(): PermissionEventPublisher {
+    if (!PermissionEventPublisher.instance) {
+      PermissionEventPublisher.instance = new PermissionEventPublisher();
+    }
+    return PermissionEventPublisher.instance;
+  }
+
+  /** Appends an event to the stream and returns its entry ID. */
+  async publish(input: PermissionEventInput): Promise<string> {
+    const event: PermissionEvent = {
+      version: PERMISSION_EVENT_VERSION,
+      ...input,
+      timestamp: Date.now(),
+    };
+
+    return redis.xadd(
+      PERMISSION_EVENTS_STREAM,
+      'MAXLEN', '~', this.MAX_LENGTH,
+      '*',
+      'event', JSON.stringify(event),
+    );
+  }
+}
+
+/**
+ * Most recent events of one user, newest first. Scans back at most
+ * `scanLimit` stream entries, so very old events may be missing.
+ */
+export async function readPermissionHistory(
+  telegramUserId: number,
+  limit: number = 50,
+  scanLimit: number = 10000,
+): Promise<StreamEntry<PermissionEvent>[]> {
+  const PAGE_SIZE = 500;
+  const history: StreamEntry<PermissionEvent>[] = [];
+  let end = '+';
+  let scanned = 0;
+
+  while (history.length < limit && scanned < scanLimit) {
+    const entries = await redis.xrevrange(PERMISSION_EVENTS_STREAM, end, '-', 'COUNT', PAGE_SIZE);
+    for (const [id, fields] of entries) {
+      const event: PermissionEvent = JSON.parse(fields[fields.indexOf('event') + 1]);
+      if (event.telegramUserId === telegramUserId && history.length < limit) {
+        history.push({ id, event });
+      }
+    }
+
+    scanned += entries.length;
+    if (entries.length < PAGE_SIZE) {
+      break;
+    }
+    end = `(${entries[entries.length - 1][0]}`;
+  }
+
+  return history;
+}
+
+/**
+ * Deletes every event of one user from the stream and returns how many
+ * were removed. Scans the whole stream, which `MAXLEN` keeps to about
+ * 100000 entries.
+ */
+export async function deletePermissionHistory(telegramUserId: number): Promise<number> {
+  const PAGE_SIZE = 500;
+  let start = '-';
+  let deleted = 0;
+
+  while (true) {
+    const entries = await redis.xrange(PERMISSION_EVENTS_STREAM, start, '+', 'COUNT', PAGE_SIZE);
+    const ids = entries
+      .filter(([, fields]) => JSON.parse(fields[fields.indexOf('event') + 1]).telegramUserId === telegramUserId)
+      .map(([id]) => id);
+    if (ids.length > 0) {
+      deleted += await redis.xdel(PERMISSION_EVENTS_STREAM, ...ids);
+    }
+
+    if (entries.length < PAGE_SIZE) {
+      break;
+    }
+    start = `(${entries[entries.length - 1][0]}`;
+  }
+
+  return deleted;
+}
+
+/**
+ * Consumer-group reader for the permission stream. Entries that were
+ * delivered but not acknowledged before a crash are returned first.
+ */
+export class PermissionEventConsumer {
+  private recovering = true;
+  private connection?: Redis;
+
+  constructor(
+    private readonly group: string,
+    private readonly consumer: string,
+  ) {}
+
+  /** Creates the consumer group if needed, starting from the beginning of the stream. */
+  async ensureGroup(): Promise<void> {
+    try {
+      await redis.xgroup('CREATE', PERMISSION_EVENTS_STREAM, this.group, '0', 'MKSTREAM');
+    } catch (error) {
+      if (!String(error?.message).includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Reads the next entries for this consumer, blocking up to `blockMs` when
+   * nothing new is available.
+   */
+  async read(count: number = 100, blockMs: number = 5000): Promise<StreamEntry<PermissionEvent>[]> {
+    // A blocking read would hold the shared connection, so use a dedicated one
+    const connection = this.connection ?? (this.connection = redis.duplicate());
+
+    if (this.recovering) {
+      const pending = await this.readGroup(connection, count, '0');
+      if (pending.length > 0) {
+        return pending;
+      }
+      this.recovering = false;
+    }
+
+    return this.readGroup(connection, count, '>', blockMs);
+  }
+
+  async ack(...ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await redis.xack(PERMISSION_EVENTS_STREAM, this.group, ...ids);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.connection?.quit();
+    this.connection = undefined;
+  }
+
+  private async readGroup(
+    connection: Redis,
+    count: number,
+    id: string,
+    blockMs?: number,
+  ): Promise<StreamEntry<PermissionEvent>[]> {
+    const result = (blockMs === undefined
+      ? await connection.xreadgroup('GROUP', this.group, this.consumer, 'COUNT', count, 'STREAMS', PERMISSION_EVENTS_STREAM, id)
+      : await connection.xreadgroup('GROUP', this.group, this.consumer, 'COUNT', count, 'BLOCK', blockMs, 'STREAMS', PERMISSION_EVENTS_STREAM, id)
+    ) as [string, [string, string[]][]][] | null;
+
+    const entries = result?.[0]?.[1] ?? [];
+    // Pending entries deleted with their account come back without fields
+    const deleted = entries.filter(([, fields]) => !fields).map(([entryId]) => entryId);
+    await this.ack(...deleted);
+
+    return entries.filter(([, fields]) => fields).map(([entryId, fields]) => ({
+      id: entryId,
+      event: JSON.parse(fields[fields.indexOf('event') + 1]),
+    }));
+  }
+}
@@ -0,0 +1,127 @@
+import { applyRevocationPolicy, PendingRevocation, RevocationPolicy } from './revocationPolicy';
+import { evaluateGating, GatingRuleDefinition, WalletHoldings } from './gatingEvaluator';
+
+jest.mock('../models/GatingRule', () => ({}));
+
+const HOUR = 3600 * 1000;
+const policy: RevocationPolicy = { gracePeriodMs: 24 * HOUR, failedChecks: 2 };
+
+// Fake clock: each check advances it by `ms`
+let clock: number;
+const tick = (ms: number) => new Date(clock += ms);
+
+const downgrade = (pending: PendingRevocation | null, now: Date) => applyRevocationPolicy({
+  currentTier: 'gold',
+  currentRank: 2,
+  evaluatedTier: null,
+  evaluatedRank: -1,
+  pending,
+  now,
+}, policy);
+
+describe('applyRevocationPolicy', () => {
+  beforeEach(() => {
+    clock = Date.parse('2025-01-01T00:00:00Z');
+  });
+
+  it('starts the grace period on the first failing check', () => {
+    const now = tick(0);
+    const decision = downgrade(null, now);
+
+    expect(decision.tier).toBe('gold');
+    expect(decision.pendingRevocation).toEqual({ since: now, failedChecks: 1, targetTier: null });
+  });
+
+  it('warns only on the first failing check', () => {
+    const first = downgrade(null, tick(0));
+    const second = downgrade(first.pendingRevocation, tick(HOUR));
+
+    expect(first.warn).toBe(true);
+    expect(second.warn).toBe(false);
+    expect(second.tier).toBe('gold');
+    expect(second.pendingRevocation.failedChecks).toBe(2);
+  });
+
+  it('revokes once the grace period has passed', () => {
+    const first = downgrade(null, tick(0));
+    const beforeGrace = downgrade(first.pendingRevocation, tick(23 * HOUR));
+    const afterGrace = downgrade(beforeGrace.pendingRevocation, tick(HOUR));
+
+    expect(beforeGrace.tier).toBe('gold');
+    expect(afterGrace).toEqual({ tier: null, pendingRevocation: null, warn: false });
+  });
+
+  it('waits for the required failing checks', () => {
+    const strict: RevocationPolicy = { gracePeriodMs: 0, failedChecks: 3 };
+    const check = (pending: PendingRevocation | null) => applyRevocationPolicy({
+      currentTier: 'gold',
+      currentRank: 2,
+      evaluatedTier: null,
+      evaluatedRank: -1,
+      pending,
+      now: tick(HOUR),
+    }, strict);
+
+    const first = check(null);
+    const second = check(first.pendingRevocation);
+    const third = check(second.pendingRevocation);
+
+    expect([first.tier, second.tier, third.tier]).toEqual(['gold', 'gold', null]);
+  });
+
+  it('clears the pending revocation when the balance recovers during grace', () => {
+    const first = downgrade(null, tick(0));
+    const recovered = applyRevocationPolicy({
+      currentTier: 'gold',
+      currentRank: 2,
+      evaluatedTier: 'gold',
+      evaluatedRank: 2,
+      pending: first.pendingRevocation,
+      now: tick(HOUR),
+    }, policy);
+
+    expect(recovered).toEqual({ tier: 'gold', pendingRevocation: null, warn: false });
+
+    // A later dip starts a new grace period and warns again
+    const dip = downgrade(recovered.pendingRevocation, tick(HOUR));
+    expect(dip.warn).toBe(true);
+    expect(dip.pendingRevocation.since).toEqual(new Date(clock));
+  });
+
+  it('applies downgrades immediately without a policy', () => {
+    const decision = applyRevocationPolicy({
+      currentTier: 'gold',
+      currentRank: 2,
+      evaluatedTier: 'silver',
+      evaluatedRank: 1,
+      now: tick(0),
+    }, { gracePeriodMs: 0, failedChecks: 1 });
+
+    expect(decision).toEqual({ tier: 'silver', pendingRevocation: null, warn: false });
+  });
+});
+
+describe('evaluateGating hysteresis', () => {
+  const MINT = 'So11111111111111111111111111111111111111112';
+  const rules: GatingRuleDefinition[] = [
+    { name: 'gold', tier: 'gold', rank: 2, operator: 'all', conditions: [{ type: 'spl-token', mint: MINT, minBalance: '1000' }] },
+    { name: 'silver', tier: 'silver', rank: 1, operator: 'all', conditions: [{ type: 'spl-token', mint: MINT, minBalance: '100' }] },
+  ];
+  const holding = (amount: number): WalletHoldings => ({
+    tokens: { [MINT]: { amount: BigInt(amount) * 10n ** 6n, decimals: 6 } },
+    collections: {},
+  });
+
+  it('keeps a held tier inside the band', () => {
+    expect(evaluateGating(holding(960), rules, { currentTier: 'gold', hysteresis: 0.05 }).tier).toBe('gold');
+  });
+
+  it('drops a held tier below the band', () => {
+    expect(evaluateGating(holding(940), rules, { currentTier: 'gold', hysteresis: 0.05 }).tier).toBe('silver');
+  });
+
+  it('does not lower the threshold of a tier that is not held yet', () => {
+    expect(evaluateGating(holding(960), rules, { currentTier: 'silver', hysteresis: 0.05 }).tier).toBe('silver');
+    expect(evaluateGating(holding(960), rules, { currentTier: null, hysteresis: 0.05 }).tier).toBe('silver');
+  });
+});
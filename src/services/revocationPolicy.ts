@@ -0,0 +1,67 @@
+import { REVOKE_FAILED_CHECKS, REVOKE_GRACE_PERIOD } from '../settings';
+
+export interface RevocationPolicy {
+  gracePeriodMs: number; // Minimum time below requirements before a downgrade
+  failedChecks: number; // Consecutive failing checks before a downgrade
+}
+
+// Downgrade waiting to be applied, persisted on the User
+export interface PendingRevocation {
+  since: Date;
+  failedChecks: number;
+  targetTier: string | null;
+}
+
+export interface RevocationInput {
+  currentTier: string | null;
+  currentRank: number;
+  evaluatedTier: string | null;
+  evaluatedRank: number;
+  pending?: PendingRevocation | null;
+  now: Date;
+}
+
+export interface RevocationDecision {
+  tier: string | null;
+  pendingRevocation: PendingRevocation | null;
+  /** True on the first failing check, so the bot can warn the member once. */
+  warn: boolean;
+}
+
+export const DEFAULT_REVOCATION_POLICY: RevocationPolicy = {
+  gracePeriodMs: REVOKE_GRACE_PERIOD * 1000,
+  failedChecks: REVOKE_FAILED_CHECKS,
+};
+
+/**
+ * Decides whether a downgrade found by a balance check is applied now or
+ * kept pending. Upgrades and unchanged tiers apply immediately and clear any
+ * pending revocation; a downgrade is only applied once the wallet failed
+ * `failedChecks` checks in a row and the grace period since the first
+ * failure has passed. `now` is passed in so the policy can be driven by a
+ * fake clock.
+ */
+export function applyRevocationPolicy(
+  input: RevocationInput,
+  policy: RevocationPolicy = DEFAULT_REVOCATION_POLICY,
+): RevocationDecision {
+  const { currentTier, currentRank, evaluatedTier, evaluatedRank, pending, now } = input;
+
+  if (evaluatedRank >= currentRank) {
+    return { tier: evaluatedTier, pendingRevocation: null, warn: false };
+  }
+
+  const since = pending?.since ? new Date(pending.since) : now;
+  const failedChecks = (pending?.failedChecks ?? 0) + 1;
+  const graceElapsed = now.getTime() - since.getTime() >= policy.gracePeriodMs;
+
+  if (failedChecks >= policy.failedChecks && graceElapsed) {
+    return { tier: evaluatedTier, pendingRevocation: null, warn: false };
+  }
+
+  return {
+    tier: currentTier,
+    pendingRevocation: { since, failedChecks, targetTier: evaluatedTier },
+    warn: !pending,
+  };
+}
@@ -0,0 +1,67 @@
+import { AnalyzedTweet } from './tweetAnalyzer';
+import { TokenInfo } from './tokenEnricher';
+import {
+  RISK_CONCENTRATION_THRESHOLD,
+  RISK_NEW_TOKEN_AGE,
+} from '../settings';
+
+export interface TokenRisk {
+  riskScore: number; // 0 (no red flag found) to 1
+  reasons: string[];
+}
+
+// Weight of each red flag in the risk score
+const RISK_WEIGHTS = {
+  mintAuthority: 0.35, // Supply can still be inflated
+  freezeAuthority: 0.25, // Holders can be frozen out of selling
+  concentration: 0.25, // A few accounts can dump on everyone else
+  newToken: 0.15,
+};
+
+/** Scores the on-chain red flags of a mint. */
+export function scoreTokenRisk(info: TokenInfo, now: number = Date.now()): TokenRisk {
+  let riskScore = 0;
+  const reasons: string[] = [];
+
+  if (!info.mintAuthorityRenounced) {
+    riskScore += RISK_WEIGHTS.mintAuthority;
+    reasons.push('Mint authority is not renounced');
+  }
+  if (!info.freezeAuthorityRenounced) {
+    riskScore += RISK_WEIGHTS.freezeAuthority;
+    reasons.push('Freeze authority is not renounced');
+  }
+  if (info.topHolderConcentration >= RISK_CONCENTRATION_THRESHOLD) {
+    riskScore += RISK_WEIGHTS.concentration;
+    reasons.push(
+      `Top ${info.topHolders.length} accounts hold ${Math.round(info.topHolderConcentration * 100)}% of the supply`
+    );
+  }
+  // History is read back past the window, so a lower bound inside it means a mint too busy to page through
+  if (info.firstSeenAt !== null && now - info.firstSeenAt < RISK_NEW_TOKEN_AGE * 1000) {
+    riskScore += RISK_WEIGHTS.newToken;
+    reasons.push(`Mint is less than ${Math.round(RISK_NEW_TOKEN_AGE / 3600)}h old`);
+  }
+
+  return { riskScore: Math.min(Number(riskScore.toFixed(2)), 1), reasons };
+}
+
+/**
+ * Merges the risk of the mints a tweet mentions into its analysis: the
+ * tweet scores as its riskiest mint, and reasons name the mint they apply
+ * to. Tweets without an enriched mint get a null score.
+ */
+export function applyTokenRisk(tweet: AnalyzedTweet, infos: Map<string, TokenInfo>, now: number = Date.now()): AnalyzedTweet {
+  const risks = tweet.tokens.mints
+    .filter(mint => infos.has(mint))
+    .map(mint => ({ mint, ...scoreTokenRisk(infos.get(mint), now) }));
+
+  return {
+    ...tweet,
+    analysis: {
+      ...tweet.analysis,
+      riskScore: risks.length > 0 ? Math.max(...risks.map(risk => risk.riskScore)) : null,
+      riskReasons: risks.flatMap(risk => risk.reasons.map(reason => `${risk.mint}: ${reason}`)),
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { RPC_MAX_RETRIES } from '../settings';
+
+/** Splits `items` into arrays of at most `size` elements. */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, keeping
+ * the order of the results.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export function isRateLimitError(error: any): boolean {
+  const message = String(error?.message ?? error);
+  return message.includes('429') || /too many requests|rate limit/i.test(message);
+}
+
+/**
+ * Runs an RPC call, retrying with exponential backoff while the node answers
+ * with a rate-limit error. `onRetry` is called before each retry so callers
+ * can count them.
+ */
+export async function withRpcBackoff<T>(
+  call: () => Promise<T>,
+  onRetry?: (attempt: number, delayMs: number) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt > RPC_MAX_RETRIES) {
+        throw error;
+      }
+      const delayMs = 500 * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+      onRetry?.(attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { SearchMode } from 'agent-twitter-client';
+import SearchConfig, { SearchModeName, WatchedAccount } from '../models/SearchConfig';
+
+export const SEARCH_CONFIG_NAME = 'default';
+
+// Plain search configuration, as loaded from MongoDB or the built-in defaults
+export interface SearchConfigDefinition {
+  keywordGroups: { primary: string[]; context: string[] };
+  queries: string[];
+  tweetsPerQuery: number;
+  searchMode: SearchModeName;
+  watchedAccounts: WatchedAccount[];
+}
+
+/** What the pipeline searched for before the configuration was stored. */
+export const DEFAULT_SEARCH_CONFIG: SearchConfigDefinition = {
+  keywordGroups: {
+    primary: ['new token', 'presale', 'stealth launch'],
+    context: ['crypto', 'gem'],
+  },
+  queries: [],
+  tweetsPerQuery: 3,
+  searchMode: 'latest',
+  watchedAccounts: [],
+};
+
+const SEARCH_MODES: Record<SearchModeName, SearchMode> = {
+  top: SearchMode.Top,
+  latest: SearchMode.Latest,
+  photos: SearchMode.Photos,
+  videos: SearchMode.Videos,
+};
+
+/**
+ * Loads the search configuration. Read at the start of every cycle, so
+ * edits apply without a restart; the defaults apply until one is stored.
+ */
+export async function loadSearchConfig(): Promise<SearchConfigDefinition> {
+  const config = await SearchConfig.findOne({ name: SEARCH_CONFIG_NAME }).lean();
+  if (!config) {
+    return DEFAULT_SEARCH_CONFIG;
+  }
+
+  return {
+    keywordGroups: {
+      primary: config.keywordGroups?.primary ?? [],
+      context: config.keywordGroups?.context ?? [],
+    },
+    queries: config.queries ?? [],
+    tweetsPerQuery: config.tweetsPerQuery,
+    searchMode: config.searchMode,
+    watchedAccounts: (config.watchedAccounts ?? []).map(({ username, count, includeReplies }) => ({
+      username,
+      count,
+      includeReplies,
+    })),
+  };
+}
+
+/**
+ * Validates and stores a new configuration, returning the list of problems
+ * instead when it is invalid.
+ */
+export async function saveSearchConfig(
+  input: Partial<SearchConfigDefinition>,
+  updatedBy?: string,
+): Promise<{ config?: SearchConfigDefinition; errors?: string[] }> {
+  const config = { ...(await loadSearchConfig()), ...input };
+  const errors = validateSearchConfig(config);
+  if (errors.length > 0) {
+    return { errors };
+  }
+  config.watchedAccounts = config.watchedAccounts.map(account => ({
+    username: account.username.replace(/^@/, ''),
+    count: account.count ?? 10,
+    includeReplies: !!account.includeReplies,
+  }));
+
+  await SearchConfig.updateOne(
+    { name: SEARCH_CONFIG_NAME },
+    { $set: { ...config, updatedBy } },
+    { upsert: true, runValidators: true },
+  );
+  return { config: await loadSearchConfig() };
+}
+
+export function validateSearchConfig(config: SearchConfigDefinition): string[] {
+  const errors: string[] = [];
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim());
+
+  if (!isStringList(config.keywordGroups?.primary) || !isStringList(config.keywordGroups?.context)) {
+    errors.push('keywordGroups.primary and keywordGroups.context must be lists of keywords');
+  }
+  if (!isStringList(config.queries)) {
+    errors.push('queries must be a list of search queries');
+  }
+  if (!Number.isInteger(config.tweetsPerQuery) || config.tweetsPerQuery < 1 || config.tweetsPerQuery > 100) {
+    errors.push('tweetsPerQuery must be an integer between 1 and 100');
+  }
+  if (!(config.searchMode in SEARCH_MODES)) {
+    errors.push(`searchMode must be one of ${Object.keys(SEARCH_MODES).join(', ')}`);
+  }
+  if (!Array.isArray(config.watchedAccounts) || !config.watchedAccounts.every(account =>
+    typeof account?.username === 'string' && /^@?\w{1,15}$/.test(account.username) &&
+    (account.count === undefined || (Number.isInteger(account.count) && account.count >= 1 && account.count <= 200))
+  )) {
+    errors.push('watchedAccounts must list Twitter usernames with an optional count between 1 and 200');
+  }
+
+  return errors;
+}
+
+/**
+ * Every search query of a cycle: each primary × context pair (or the
+ * primary keywords alone without context), then the extra queries.
+ */
+export function searchQueries(config: SearchConfigDefinition): string[] {
+  const { primary, context } = config.keywordGroups;
+  const combined = context.length > 0
+    ? primary.flatMap(keyword => context.map(contextKeyword => `${keyword} ${contextKeyword}`))
+    : primary;
+  return [...new Set([...combined, ...config.queries])];
+}
+
+export function searchMode(config: SearchConfigDefinition): SearchMode {
+  return SEARCH_MODES[config.searchMode];
+}
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import Redis from 'ioredis';
+import { WebSocket, WebSocketServer } from 'ws';
+import { redis } from '../redis';
+import { authenticateHolder, HolderAuthError } from '../middleware/holderAuth';
+import { WalletRegistry } from './walletRegistry';
+import { SentimentUpdate } from './sentimentStore';
+import { FEED_HEARTBEAT_INTERVAL, FEED_HOLDER_RECHECK } from '../settings';
+
+export const SENTIMENT_UPDATES_CHANNEL = 'sentiment:updates';
+export const FEED_WS_PATH = '/api/feed/ws';
+export const FEED_ACTION = 'sentiment:subscribe';
+
+export interface FeedFilters {
+  topics: string[]; // Lower-cased; empty matches every tweet
+  minScore: number;
+}
+
+type FeedEvent = 'ready' | 'batch' | 'tweet' | 'filters' | 'error';
+
+interface FeedClient {
+  id: string;
+  publicKey: string;
+  filters: FeedFilters;
+  checkedAt: number; // Last time the holder status was confirmed
+  send(event: FeedEvent, data: unknown): void;
+  ping(): void; // Keeps idle connections open through proxies
+  close(reason: string): void;
+}
+
+/** Reads client filters from query parameters or a WebSocket message. */
+export function parseFeedFilters(input: { topics?: unknown; minScore?: unknown }): FeedFilters {
+  const topics = Array.isArray(input.topics)
+    ? input.topics.map(String)
+    : typeof input.topics === 'string' ? input.topics.split(',') : [];
+  const minScore = Number(input.minScore);
+
+  return {
+    topics: topics.map(topic => topic.trim().toLowerCase()).filter(Boolean),
+    minScore: Number.isFinite(minScore) ? minScore : 0,
+  };
+}
+
+function matchesFilters(tweet: SentimentUpdate['tweets'][number], filters: FeedFilters): boolean {
+  if (tweet.analysis.score < filters.minScore) {
+    return false;
+  }
+  return filters.topics.length === 0 ||
+    tweet.analysis.topics.some(topic => filters.topics.includes(topic.toLowerCase()));
+}
+
+/**
+ * Relays `sentiment:updates` to browsers over Server-Sent Events and
+ * WebSocket. Every client sends a `batch` event per update, holding only
+ * the tweets that pass its filters, followed by one `tweet` event per
+ * matching tweet. Only current token holders are served; their status is
+ * confirmed again every `FEED_HOLDER_RECHECK` seconds.
+ */
+export class SentimentFeed {
+  private static instance: SentimentFeed;
+  private clients = new Set<FeedClient>();
+  private subscriber?: Redis;
+  private wss?: WebSocketServer;
+  private heartbeat?: NodeJS.Timeout;
+
+  private constructor() {}
+
+  public static getInstance(): SentimentFeed {
+    if (!SentimentFeed.instance) {
+      SentimentFeed.instance = new SentimentFeed();
+    }
+    return SentimentFeed.instance;
+  }
+
+  /** Subscribes to the pipeline and accepts WebSocket upgrades on `server`. */
+  public async start(server: Server): Promise<void> {
+    // A subscribed connection cannot run other commands, so use a dedicated one
+    this.subscriber = redis.duplicate();
+    this.subscriber.on('message', (channel, message) => {
+      if (channel === SENTIMENT_UPDATES_CHANNEL) {
+        // Parsed inside the chain so a malformed payload is logged instead of crashing the process
+        Promise.resolve().then(() => this.broadcast(JSON.parse(message))).catch(error => {
+          console.error('Error broadcasting sentiment update:', error);
+        });
+      }
+    });
+    await this.subscriber.subscribe(SENTIMENT_UPDATES_CHANNEL);
+
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (req, socket, head) => {
+      if (new URL(req.url ?? '', 'http://localhost').pathname === FEED_WS_PATH) {
+        this.handleUpgrade(req, socket, head).catch(error => {
+          console.error('Error handling feed upgrade:', error);
+          socket.destroy();
+        });
+      }
+    });
+
+    this.heartbeat = setInterval(() => this.sendHeartbeats(), FEED_HEARTBEAT_INTERVAL * 1000);
+  }
+
+  public async stop(): Promise<void> {
+    clearInterval(this.heartbeat);
+    this.clients.forEach(client => client.close('Server shutting down'));
+    this.clients.clear();
+    this.wss?.close();
+    await this.subscriber?.quit();
+    this.subscriber = undefined;
+  }
+
+  /** Turns an Express response into an event stream. */
+  public addSseClient(req, res, publicKey: string, filters: FeedFilters): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop proxies from buffering the stream
+    });
+
+    const client: FeedClient = {
+      id: crypto.randomUUID(),
+      publicKey,
+      filters,
+      checkedAt: Date.now(),
+      send: (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+      ping: () => res.write(': ping\n\n'),
+      close: (reason) => {
+        res.write(`event: error\ndata: ${JSON.stringify({ message: reason })}\n\n`);
+        res.end();
+      },
+    };
+
+    this.addClient(client);
+    req.on('close', () => this.clients.delete(client));
+  }
+
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(req.url ?? '', 'http://localhost');
+    const token = req.headers.authorization?.split(' ')[1] ?? url.searchParams.get('access_token') ?? undefined;
+
+    let publicKey: string;
+    try {
+      ({ publicKey } = await authenticateHolder(token, FEED_ACTION));
+    } catch (error) {
+      if (error instanceof HolderAuthError) {
+        socket.end(`HTTP/1.1 ${error.status} ${error.status === 403 ? 'Forbidden' : 'Unauthorized'}\r\n\r\n`);
+        return;
+      }
+      throw error;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: FeedClient = {
+        id: crypto.randomUUID(),
+        publicKey,
+        filters: parseFeedFilters({
+          topics: url.searchParams.get('topics') ?? undefined,
+          minScore: url.searchParams.get('minScore') ?? undefined,
+        }),
+        checkedAt: Date.now(),
+        send: (event, data) => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({ type: event, data }));
+          }
+        },
+        ping: () => ws.ping(),
+        close: (reason) => ws.close(1008, reason),
+      };
+
+      // Clients may change their filters with `{ "type": "filters", "topics": [...], "minScore": 0.5 }`
+      ws.on('message', (message) => {
+        try {
+          const { type, ...filters } = JSON.parse(message.toString());
+          if (type === 'filters') {
+            client.filters = parseFeedFilters(filters);
+            client.send('filters', client.filters);
+          }
+        } catch {
+          client.send('error', { message: 'Invalid message' });
+        }
+      });
+      ws.on('close', () => this.clients.delete(client));
+
+      this.addClient(client);
+    });
+  }
+
+  private addClient(client: FeedClient): void {
+    this.clients.add(client);
+    client.send('ready', { filters: client.filters });
+  }
+
+  // Clients are checked in parallel, and one failing lookup or send only skips that client
+  private async broadcast(update: SentimentUpdate): Promise<void> {
+    await Promise.all([...this.clients].map(async (client) => {
+      try {
+        if (!(await this.isStillHolder(client))) {
+          this.clients.delete(client);
+          client.close('Token holder access required');
+          return;
+        }
+
+        const tweets = update.tweets.filter(tweet => matchesFilters(tweet, client.filters));
+        client.send('batch', { ...update, tweets });
+        tweets.forEach(tweet => client.send('tweet', { batchId: update.metadata.batchId, tweet }));
+      } catch (error) {
+        console.error(`Error sending sentiment update to feed client ${client.id}:`, error);
+      }
+    }));
+  }
+
+  private async isStillHolder(client: FeedClient): Promise<boolean> {
+    if (Date.now() - client.checkedAt < FEED_HOLDER_RECHECK * 1000) {
+      return true;
+    }
+
+    const user = await WalletRegistry.getInstance().findOwner(client.publicKey);
+    client.checkedAt = Date.now();
+    return !!user?.hasRequiredBalance;
+  }
+
+  private sendHeartbeats(): void {
+    this.clients.forEach(client => client.ping());
+  }
+}
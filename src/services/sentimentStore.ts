@@ -0,0 +1,188 @@
+import { FilterQuery } from 'mongoose';
+import SentimentBatch, { ISentimentBatch } from '../models/SentimentBatch';
+import SentimentTweet, { ISentimentTweet } from '../models/SentimentTweet';
+import { AnalyzedTweet } from './tweetAnalyzer';
+import { TokenSignal } from './tokenSignals';
+
+/** Payload published on `sentiment:updates` for each analysis batch. */
+export interface SentimentUpdate {
+  timestamp: number;
+  metadata: {
+    totalTweetsAnalyzed: number;
+    significantTweetsCount: number;
+    targetAccounts: string[]; // Watched accounts scraped for the batch
+    queries: string[]; // Search queries run for the batch
+    batchId: string;
+  };
+  statistics: {
+    averageScore: number;
+    averageCredibility: number;
+    sentimentDistribution: Record<string, number>;
+    topTopics: { topic: string; count: number }[];
+  };
+  tokens: TokenSignal[]; // Significant tweets grouped per token mentioned
+  tweets: (AnalyzedTweet & {
+    engagement: { likes: number; retweets: number; replies: number; views: number; bookmarks: number };
+  })[];
+}
+
+export interface Page {
+  page?: number;
+  limit?: number;
+}
+
+export interface TweetQuery extends Page {
+  topic?: string;
+  sentiment?: AnalyzedTweet['analysis']['sentiment'];
+  minScore?: number;
+  maxScore?: number;
+  minCredibility?: number;
+  maxRiskScore?: number; // Tweets without a risk score always match
+  batchId?: string;
+  token?: string; // Mint address or ticker, with or without `$`
+  since?: Date;
+  until?: Date;
+}
+
+/** Persists every sentiment batch so results outlive the pub/sub message. */
+export class SentimentStore {
+  private static instance: SentimentStore;
+
+  private constructor() {}
+
+  public static getInstance(): SentimentStore {
+    if (!SentimentStore.instance) {
+      SentimentStore.instance = new SentimentStore();
+    }
+    return SentimentStore.instance;
+  }
+
+  async saveBatch(update: SentimentUpdate): Promise<void> {
+    const { batchId } = update.metadata;
+
+    if (update.tweets.length > 0) {
+      await SentimentTweet.bulkWrite(update.tweets.map(tweet => ({
+        updateOne: {
+          filter: { tweetId: tweet.id, batchId },
+          update: {
+            $set: {
+              userId: tweet.userId,
+              username: tweet.username,
+              name: tweet.name,
+              text: tweet.text,
+              permanentUrl: tweet.permanentUrl,
+              postedAt: tweet.timeParsed,
+              hashtags: tweet.hashtags ?? [],
+              urls: tweet.urls ?? [],
+              tokens: tweet.tokens,
+              analysis: tweet.analysis,
+              engagement: tweet.engagement,
+            },
+          },
+          upsert: true,
+        },
+      })));
+    }
+
+    await SentimentBatch.updateOne(
+      { batchId },
+      {
+        $set: {
+          timestamp: new Date(update.timestamp),
+          metadata: {
+            totalTweetsAnalyzed: update.metadata.totalTweetsAnalyzed,
+            significantTweetsCount: update.metadata.significantTweetsCount,
+            targetAccounts: update.metadata.targetAccounts,
+            queries: update.metadata.queries,
+          },
+          statistics: update.statistics,
+          tokens: update.tokens,
+          tweetIds: update.tweets.map(tweet => tweet.id),
+        },
+      },
+      { upsert: true },
+    );
+  }
+
+  async latestBatch(): Promise<{ batch: ISentimentBatch; tweets: ISentimentTweet[] } | null> {
+    const batch = await SentimentBatch.findOne().sort({ timestamp: -1 });
+    return batch ? { batch, tweets: await this.batchTweets(batch.batchId) } : null;
+  }
+
+  async getBatch(batchId: string): Promise<{ batch: ISentimentBatch; tweets: ISentimentTweet[] } | null> {
+    const batch = await SentimentBatch.findOne({ batchId });
+    return batch ? { batch, tweets: await this.batchTweets(batch.batchId) } : null;
+  }
+
+  /** Batches newest first, without their tweets. */
+  async listBatches(query: Page & { since?: Date; until?: Date } = {}) {
+    const { page, limit } = this.pagination(query);
+    const filter: FilterQuery<ISentimentBatch> = {};
+    if (query.since || query.until) {
+      filter.timestamp = {
+        ...(query.since ? { $gte: query.since } : {}),
+        ...(query.until ? { $lt: query.until } : {}),
+      };
+    }
+
+    const [batches, total] = await Promise.all([
+      SentimentBatch.find(filter).sort({ timestamp: -1 }).skip((page - 1) * limit).limit(limit),
+      SentimentBatch.countDocuments(filter),
+    ]);
+    return { batches, total, page, limit };
+  }
+
+  /** Every analysis of a tweet, newest first. */
+  async tweetAnalyses(tweetId: string): Promise<ISentimentTweet[]> {
+    return SentimentTweet.find({ tweetId }).sort({ createdAt: -1 });
+  }
+
+  async findTweets(query: TweetQuery = {}) {
+    const { page, limit } = this.pagination(query);
+    const filter: FilterQuery<ISentimentTweet> = {};
+    if (query.topic) filter['analysis.topics'] = query.topic;
+    if (query.sentiment) filter['analysis.sentiment'] = query.sentiment;
+    if (query.maxRiskScore !== undefined) {
+      filter['analysis.riskScore'] = { $not: { $gt: query.maxRiskScore } };
+    }
+    if (query.batchId) filter.batchId = query.batchId;
+    if (query.token) {
+      filter.$or = [
+        { 'tokens.mints': query.token },
+        { 'tokens.cashtags': query.token.replace(/^\$/, '').toUpperCase() },
+      ];
+    }
+    if (query.minScore !== undefined || query.maxScore !== undefined) {
+      filter['analysis.score'] = {
+        ...(query.minScore !== undefined ? { $gte: query.minScore } : {}),
+        ...(query.maxScore !== undefined ? { $lte: query.maxScore } : {}),
+      };
+    }
+    if (query.minCredibility !== undefined) {
+      filter['analysis.credibilityScore'] = { $gte: query.minCredibility };
+    }
+    if (query.since || query.until) {
+      filter.createdAt = {
+        ...(query.since ? { $gte: query.since } : {}),
+        ...(query.until ? { $lt: query.until } : {}),
+      };
+    }
+
+    const [tweets, total] = await Promise.all([
+      SentimentTweet.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      SentimentTweet.countDocuments(filter),
+    ]);
+    return { tweets, total, page, limit };
+  }
+
+  private batchTweets(batchId: string): Promise<ISentimentTweet[]> {
+    return SentimentTweet.find({ batchId }).sort({ 'analysis.score': -1 });
+  }
+
+  private pagination(query: Page) {
+    return {
+      page: Math.max(1, query.page ?? 1),
+      limit: Math.min(100, Math.max(1, query.limit ?? 20)),
+    };
+  }
+}
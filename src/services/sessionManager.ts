@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import { redis } from '../redis';
+import { REFRESH_TOKEN_TTL, SESSION_SECRET, SESSION_TTL } from '../settings';
+
+/**
+ * Claims carried by a session access token. Tokens are HS256 JWTs so any
+ * standard library can decode them, but they are only honoured while the
+ * session they belong to still exists in Redis.
+ */
+export interface SessionClaims {
+  sub: string; // Wallet public key
+  sid: string; // Session id
+  iat: number;
+  exp: number;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export class SessionManager {
+  private static instance: SessionManager;
+
+  private constructor() {}
+
+  public static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  /** Starts a new session for a wallet that just proved ownership. */
+  async create(publicKey: string): Promise<SessionTokens> {
+    const sessionId = crypto.randomUUID();
+
+    await redis
+      .multi()
+      .set(this.sessionKey(sessionId), JSON.stringify({ publicKey, createdAt: Date.now() }), 'EX', REFRESH_TOKEN_TTL)
+      .sadd(this.walletSessionsKey(publicKey), sessionId)
+      .expire(this.walletSessionsKey(publicKey), REFRESH_TOKEN_TTL)
+      .exec();
+
+    return this.issueTokens(publicKey, sessionId);
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. Refresh tokens are
+   * single-use; returns null if the token or its session is gone.
+   */
+  async refresh(refreshToken: string): Promise<SessionTokens | null> {
+    const sessionId = await redis.getdel(this.refreshKey(refreshToken));
+    if (!sessionId) {
+      return null;
+    }
+
+    const session = await redis.get(this.sessionKey(sessionId));
+    if (!session) {
+      return null;
+    }
+
+    const { publicKey } = JSON.parse(session) as { publicKey: string };
+    // Keep the wallet's session index alive too, or `revokeAll` would miss this session
+    await redis
+      .multi()
+      .expire(this.sessionKey(sessionId), REFRESH_TOKEN_TTL)
+      .sadd(this.walletSessionsKey(publicKey), sessionId)
+      .expire(this.walletSessionsKey(publicKey), REFRESH_TOKEN_TTL)
+      .exec();
+    return this.issueTokens(publicKey, sessionId);
+  }
+
+  /**
+   * Verifies an access token's signature, expiry and that its session has
+   * not been revoked. Returns null if any check fails.
+   */
+  async verify(accessToken: string): Promise<SessionClaims | null> {
+    const [header, payload, signature] = (accessToken || '').split('.');
+    if (!header || !payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let claims: SessionClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+
+    if (DateTime.local().toUTC().toUnixInteger() > claims.exp) {
+      return null;
+    }
+
+    const exists = await redis.exists(this.sessionKey(claims.sid));
+    return exists ? claims : null;
+  }
+
+  /** Revokes a single session. Outstanding access tokens stop working immediately. */
+  async revoke(sessionId: string): Promise<void> {
+    const session = await redis.getdel(this.sessionKey(sessionId));
+    if (session) {
+      const { publicKey } = JSON.parse(session) as { publicKey: string };
+      await redis.srem(this.walletSessionsKey(publicKey), sessionId);
+    }
+  }
+
+  /** Revokes every session opened by a wallet. */
+  async revokeAll(publicKey: string): Promise<void> {
+    const sessionIds = await redis.smembers(this.walletSessionsKey(publicKey));
+    if (sessionIds.length > 0) {
+      await redis.del(...sessionIds.map(id => this.sessionKey(id)));
+    }
+    await redis.del(this.walletSessionsKey(publicKey));
+  }
+
+  private async issueTokens(publicKey: string, sessionId: string): Promise<SessionTokens> {
+    const iat = DateTime.local().toUTC().toUnixInteger();
+    const claims: SessionClaims = { sub: publicKey, sid: sessionId, iat, exp: iat + SESSION_TTL };
+
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const accessToken = `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    await redis.set(this.refreshKey(refreshToken), sessionId, 'EX', REFRESH_TOKEN_TTL);
+
+    return { sessionId, accessToken, refreshToken, expiresIn: SESSION_TTL };
+  }
+
+  // Checked lazily so revocation keeps working on deployments without sessions
+  private sign(data: string): string {
+    if (!SESSION_SECRET) {
+      throw new Error('SESSION_SECRET environment variable is required');
+    }
+    return crypto.createHmac('sha256', SESSION_SECRET).update(data).digest('base64url');
+  }
+
+  private sessionKey(sessionId: string) {
+    return `auth:session:${sessionId}`;
+  }
+
+  private walletSessionsKey(publicKey: string) {
+    return `auth:sessions:${publicKey}`;
+  }
+
+  // Refresh tokens are stored hashed so a Redis dump does not leak usable tokens
+  private refreshKey(refreshToken: string) {
+    const hash = crypto.createHash('sha256').update(refreshToken).digest('hex');
+    return `auth:refresh:${hash}`;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Sign-In-With-Solana message helpers. The text layout follows the format
+ * Phantom and Solflare render in their sign-in prompt:
+ *
+ * ```
+ * ${domain} wants you to sign in with your Solana account:
+ * ${address}
+ *
+ * ${statement}
+ *
+ * URI: ${uri}
+ * Version: ${version}
+ * Chain ID: ${chainId}
+ * Nonce: ${nonce}
+ * Issued At: ${issuedAt}
+ * Expiration Time: ${expirationTime}
+ * Resources:
+ * - ${resources[0]}
+ * ```
+ */
+export interface SiwsMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri?: string;
+  version?: string;
+  chainId?: string;
+  nonce?: string;
+  issuedAt?: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/** Resource prefix used to carry the `web3Auth` action inside a SIWS message. */
+export const SIWS_ACTION_RESOURCE_PREFIX = 'urn:degen-server:action:';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+
+// The single-line `Label: value` fields, in message order
+type SiwsField = Exclude<keyof SiwsMessage, 'domain' | 'address' | 'statement' | 'resources'>;
+
+const FIELD_LABELS: Record<string, SiwsField> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+export function formatSiwsMessage(input: SiwsMessage): string {
+  let message = `${input.domain}${HEADER_SUFFIX}\n${input.address}`;
+
+  if (input.statement) {
+    message += `\n\n${input.statement}`;
+  }
+
+  const fields = Object.entries(FIELD_LABELS)
+    .filter(([, key]) => input[key] !== undefined)
+    .map(([label, key]) => `${label}: ${input[key]}`);
+
+  if (input.resources?.length) {
+    fields.push(`Resources:${input.resources.map(resource => `\n- ${resource}`).join('')}`);
+  }
+
+  if (fields.length > 0) {
+    message += `\n\n${fields.join('\n')}`;
+  }
+
+  return message;
+}
+
+/**
+ * Parses a SIWS message back into its fields. Throws if the text does not
+ * follow the layout produced by `formatSiwsMessage`.
+ */
+export function parseSiwsMessage(text: string): SiwsMessage {
+  const lines = text.split('\n');
+  const [header, address] = lines;
+
+  if (!header?.endsWith(HEADER_SUFFIX) || !address) {
+    throw new Error('Not a Sign-In-With-Solana message');
+  }
+
+  const message: SiwsMessage = {
+    domain: header.slice(0, -HEADER_SUFFIX.length),
+    address,
+  };
+
+  let index = 2;
+  if (lines[index] === '' && lines[index + 1] !== undefined && !isFieldLine(lines[index + 1])) {
+    message.statement = lines[index + 1];
+    index += 2;
+  }
+
+  if (index < lines.length) {
+    if (lines[index] !== '') {
+      throw new Error('Malformed Sign-In-With-Solana message');
+    }
+    index++;
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line === 'Resources:') {
+      message.resources = [];
+      for (index++; index < lines.length; index++) {
+        if (!lines[index].startsWith('- ')) {
+          throw new Error('Malformed Sign-In-With-Solana resources');
+        }
+        message.resources.push(lines[index].slice(2));
+      }
+      break;
+    }
+
+    const label = Object.keys(FIELD_LABELS).find(label => line.startsWith(`${label}: `));
+    if (!label) {
+      throw new Error(`Unexpected Sign-In-With-Solana line: ${line}`);
+    }
+    message[FIELD_LABELS[label]] = line.slice(label.length + 2);
+  }
+
+  return message;
+}
+
+/** Returns the `web3Auth` action encoded in the message resources, if any. */
+export function siwsAction(message: SiwsMessage): string | undefined {
+  const resource = message.resources?.find(r => r.startsWith(SIWS_ACTION_RESOURCE_PREFIX));
+  return resource?.slice(SIWS_ACTION_RESOURCE_PREFIX.length);
+}
+
+function isFieldLine(line: string): boolean {
+  return line === 'Resources:' || Object.keys(FIELD_LABELS).some(label => line.startsWith(`${label}: `));
+}
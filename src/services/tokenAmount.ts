@@ -0,0 +1,30 @@
+/**
+ * Raw token amount with the decimals of its mint. Balances are kept in raw
+ * base units so sums and threshold checks are exact, unlike `uiAmount`.
+ */
+export interface TokenAmount {
+  amount: bigint;
+  decimals: number;
+}
+
+/** Converts a decimal string such as `"1000.5"` into raw base units. */
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  const [whole, fraction = ''] = value.trim().split('.');
+  if (!/^\d*$/.test(whole) || !/^\d*$/.test(fraction)) {
+    throw new Error(`Invalid token amount: ${value}`);
+  }
+  // Digits beyond the mint's precision cannot be held, so they are dropped
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, '0');
+  return BigInt(`${whole || '0'}${paddedFraction}`);
+}
+
+/** Formats raw base units as an exact decimal string. */
+export function formatTokenAmount({ amount, decimals }: TokenAmount): string {
+  if (decimals === 0) {
+    return amount.toString();
+  }
+  const digits = amount.toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
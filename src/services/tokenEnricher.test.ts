@@ -0,0 +1,111 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+
+const connection = {
+  getParsedAccountInfo: jest.fn(),
+  getTokenLargestAccounts: jest.fn(),
+  getSignaturesForAddress: jest.fn(),
+};
+const cache = new Map<string, string>();
+
+jest.mock('../redis', () => ({
+  redis: {
+    get: async (key: string) => cache.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => cache.set(key, value),
+  },
+}));
+jest.mock('../solana', () => ({ SolanaClient: { getInstance: () => connection } }));
+
+import { scoreTokenRisk } from './riskScorer';
+import { attachTokenInfo, TokenEnricher } from './tokenEnricher';
+import { AnalyzedTweet } from './tweetAnalyzer';
+
+const address = () => Keypair.generate().publicKey;
+const HOUR = 3600;
+
+// A page of `count` signatures, the oldest `oldestAgo` seconds before now
+function signaturePage(prefix: string, count: number, oldestAgo: number) {
+  const now = Math.floor(Date.now() / 1000);
+  return Array.from({ length: count }, (_, i) => ({
+    signature: `${prefix}${i}`,
+    blockTime: now - Math.round((oldestAgo * (i + 1)) / count),
+  }));
+}
+
+function mintAccount(mintAuthority: PublicKey | null = null) {
+  return {
+    value: {
+      owner: TOKEN_PROGRAM_ID,
+      data: {
+        parsed: {
+          type: 'mint',
+          info: { supply: '1000000', decimals: 6, mintAuthority: mintAuthority?.toBase58() ?? null, freezeAuthority: null },
+        },
+      },
+    },
+  };
+}
+
+describe('TokenEnricher', () => {
+  const mint = address().toBase58();
+  const wallet = address().toBase58();
+
+  beforeEach(() => {
+    cache.clear();
+    jest.resetAllMocks();
+    connection.getParsedAccountInfo.mockImplementation(async (pubkey: PublicKey) =>
+      pubkey.toBase58() === mint ? mintAccount() : { value: { owner: address(), data: {} } }
+    );
+    connection.getTokenLargestAccounts.mockResolvedValue({ value: [{ address: address(), amount: '250000' }] });
+    connection.getSignaturesForAddress.mockResolvedValue([{ signature: 'a', blockTime: 1700000000 }]);
+  });
+
+  it('enriches SPL mints, skips other addresses and caches the result', async () => {
+    const infos = await TokenEnricher.getInstance().enrichMany([mint, wallet, mint]);
+
+    expect([...infos.keys()]).toEqual([mint]);
+    expect(infos.get(mint)).toMatchObject({
+      supply: '1',
+      mintAuthorityRenounced: true,
+      topHolderConcentration: 0.25,
+      firstSeenAt: 1700000000 * 1000,
+    });
+
+    await TokenEnricher.getInstance().enrichMany([mint]);
+    expect(connection.getParsedAccountInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('attaches the info of enriched mints to the tweet tokens', async () => {
+    const infos = await TokenEnricher.getInstance().enrichMany([mint, wallet]);
+    const tweet = { id: '1', tokens: { cashtags: ['DGN'], mints: [mint, wallet] } } as AnalyzedTweet;
+
+    expect(attachTokenInfo(tweet, infos).tokens).toEqual({
+      cashtags: ['DGN'],
+      mints: [mint, wallet],
+      info: { [mint]: infos.get(mint) },
+    });
+  });
+
+  it('pages back through a full page of history to date a young mint', async () => {
+    connection.getSignaturesForAddress
+      .mockResolvedValueOnce(signaturePage('a', 1000, 2 * HOUR))
+      .mockResolvedValueOnce(signaturePage('b', 10, 3 * HOUR));
+
+    const info = await TokenEnricher.getInstance().enrich(mint);
+
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(2);
+    expect(connection.getSignaturesForAddress.mock.calls[1][1]).toMatchObject({ before: 'a999' });
+    expect(info.ageIsLowerBound).toBe(false);
+    expect(scoreTokenRisk(info).reasons).toContain('Mint is less than 24h old');
+  });
+
+  it('stops paging once the history is older than the new-token window', async () => {
+    connection.getSignaturesForAddress.mockResolvedValueOnce(signaturePage('a', 1000, 48 * HOUR));
+
+    const info = await TokenEnricher.getInstance().enrich(mint);
+
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(1);
+    expect(info.ageIsLowerBound).toBe(true);
+    expect(scoreTokenRisk(info).reasons).not.toContain('Mint is less than 24h old');
+  });
+});
@@ -0,0 +1,148 @@
+import { ConfirmedSignatureInfo, Connection, ParsedAccountData, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { redis } from '../redis';
+import { SolanaClient } from '../solana';
+import { withRpcBackoff } from './rpcUtils';
+import { formatTokenAmount } from './tokenAmount';
+import { RISK_NEW_TOKEN_AGE, TOKEN_INFO_CACHE_TTL, TOKEN_TOP_HOLDERS } from '../settings';
+import { AnalyzedTweet } from './tweetAnalyzer';
+
+export interface TokenHolder {
+  address: string; // Token account, not its owner
+  amount: string;
+  share: number; // Fraction of the supply, 0-1
+}
+
+// On-chain facts about a mint mentioned in a tweet
+export interface TokenInfo {
+  mint: string;
+  programId: string;
+  supply: string;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  mintAuthorityRenounced: boolean;
+  freezeAuthorityRenounced: boolean;
+  topHolders: TokenHolder[];
+  topHolderConcentration: number; // Share of the supply held by `topHolders`
+  firstSeenAt: number | null; // Block time of the oldest transaction found for the mint, used as the token's age
+  ageIsLowerBound: boolean; // More history exists than was read, so the mint is older than `firstSeenAt`
+  fetchedAt: number;
+}
+
+/** Puts the info of each enriched mint the tweet mentions on its `tokens`. */
+export function attachTokenInfo(tweet: AnalyzedTweet, infos: Map<string, TokenInfo>): AnalyzedTweet {
+  const info = Object.fromEntries(tweet.tokens.mints.filter(mint => infos.has(mint)).map(mint => [mint, infos.get(mint)]));
+  return { ...tweet, tokens: { ...tweet.tokens, info } };
+}
+
+/**
+ * Reads supply, authorities and holder concentration of SPL mints through
+ * the shared connection. Results are cached in Redis for
+ * `TOKEN_INFO_CACHE_TTL` seconds, including addresses that are not mints.
+ */
+export class TokenEnricher {
+  private static instance: TokenEnricher;
+  private connection: Connection;
+  private readonly SIGNATURE_PAGE_SIZE = 1000;
+  private readonly MAX_SIGNATURE_PAGES = 10; // A mint with more transactions inside the new-token window is dated by the oldest one read
+
+  private constructor() {
+    this.connection = SolanaClient.getInstance();
+  }
+
+  public static getInstance(): TokenEnricher {
+    if (!TokenEnricher.instance) {
+      TokenEnricher.instance = new TokenEnricher();
+    }
+    return TokenEnricher.instance;
+  }
+
+  /** Enriches each address, leaving out the ones that are not SPL mints or fail to load. */
+  async enrichMany(mints: string[]): Promise<Map<string, TokenInfo>> {
+    const infos = new Map<string, TokenInfo>();
+    for (const mint of new Set(mints)) {
+      try {
+        const info = await this.enrich(mint);
+        if (info) {
+          infos.set(mint, info);
+        }
+      } catch (error) {
+        console.error(`Error enriching token ${mint}:`, error);
+      }
+    }
+    return infos;
+  }
+
+  /** Returns null when the address is not an SPL Token or Token-2022 mint. */
+  async enrich(mint: string): Promise<TokenInfo | null> {
+    const cacheKey = `token_info:${mint}`;
+    const cached = await redis.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const info = await this.fetchTokenInfo(mint);
+    await redis.setex(cacheKey, TOKEN_INFO_CACHE_TTL, JSON.stringify(info));
+    return info;
+  }
+
+  private async fetchTokenInfo(mint: string): Promise<TokenInfo | null> {
+    const mintPubkey = new PublicKey(mint);
+    const { value: account } = await withRpcBackoff(() => this.connection.getParsedAccountInfo(mintPubkey));
+
+    const isTokenProgram = account?.owner.equals(TOKEN_PROGRAM_ID) || account?.owner.equals(TOKEN_2022_PROGRAM_ID);
+    const data = account?.data as ParsedAccountData;
+    if (!isTokenProgram || data?.parsed?.type !== 'mint') {
+      return null;
+    }
+
+    const { supply, decimals, mintAuthority, freezeAuthority } = data.parsed.info;
+    const rawSupply = BigInt(supply);
+
+    const { value: largest } = await withRpcBackoff(() => this.connection.getTokenLargestAccounts(mintPubkey));
+    const topHolders = largest.slice(0, TOKEN_TOP_HOLDERS).map(holder => ({
+      address: holder.address.toBase58(),
+      amount: formatTokenAmount({ amount: BigInt(holder.amount), decimals }),
+      share: this.share(BigInt(holder.amount), rawSupply),
+    }));
+    const held = largest.slice(0, TOKEN_TOP_HOLDERS).reduce((sum, holder) => sum + BigInt(holder.amount), 0n);
+
+    // The token's age is dated from the mint account's own history rather than from any token
+    // account: holder accounts are created later, so the mint's first signature is the earliest
+    // point the token existed. History is paged back only until it leaves the new-token window
+    let oldest: ConfirmedSignatureInfo | undefined;
+    let complete = false;
+    for (let page = 0; page < this.MAX_SIGNATURE_PAGES; page++) {
+      const signatures = await withRpcBackoff(() =>
+        this.connection.getSignaturesForAddress(mintPubkey, { limit: this.SIGNATURE_PAGE_SIZE, before: oldest?.signature })
+      );
+      oldest = signatures[signatures.length - 1] ?? oldest;
+      complete = signatures.length < this.SIGNATURE_PAGE_SIZE;
+      if (complete || (oldest.blockTime && Date.now() - oldest.blockTime * 1000 >= RISK_NEW_TOKEN_AGE * 1000)) {
+        break;
+      }
+    }
+
+    return {
+      mint,
+      programId: account.owner.toBase58(),
+      supply: formatTokenAmount({ amount: rawSupply, decimals }),
+      decimals,
+      mintAuthority: mintAuthority ?? null,
+      freezeAuthority: freezeAuthority ?? null,
+      mintAuthorityRenounced: !mintAuthority,
+      freezeAuthorityRenounced: !freezeAuthority,
+      topHolders,
+      topHolderConcentration: this.share(held, rawSupply),
+      firstSeenAt: oldest?.blockTime ? oldest.blockTime * 1000 : null,
+      ageIsLowerBound: !complete,
+      fetchedAt: Date.now(),
+    };
+  }
+
+  // Share with basis-point precision, computed on raw amounts to stay exact for large supplies
+  private share(amount: bigint, supply: bigint): number {
+    return supply > 0n ? Number((amount * 10000n) / supply) / 10000 : 0;
+  }
+}
@@ -0,0 +1,18 @@
+import { extractTokens } from './tokenExtractor';
+
+const MINT = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+const SIGNATURE = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+describe('extractTokens', () => {
+  it('extracts cashtags and mints', () => {
+    expect(extractTokens(`$wif is live, CA: ${MINT} (not $100)`)).toEqual({ cashtags: ['WIF'], mints: [MINT] });
+  });
+
+  it('finds mints inside URLs', () => {
+    expect(extractTokens(`https://pump.fun/coin/${MINT}?ref=x`).mints).toEqual([MINT]);
+  });
+
+  it('ignores slices of longer base58 strings', () => {
+    expect(extractTokens(`tx https://solscan.io/tx/${SIGNATURE}`).mints).toEqual([]);
+  });
+});
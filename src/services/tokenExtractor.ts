@@ -0,0 +1,34 @@
+import { PublicKey } from '@solana/web3.js';
+import { TokenInfo } from './tokenEnricher';
+
+// Tokens mentioned in a tweet
+export interface ExtractedTokens {
+  cashtags: string[]; // Upper-cased tickers without the `$`
+  mints: string[]; // Base58 addresses that decode to a valid 32-byte public key
+  info?: Record<string, TokenInfo>; // On-chain info of the mints that are SPL mints, set once enriched
+}
+
+// `$` followed by a ticker starting with a letter, so prices such as $100 are skipped
+const CASHTAG_PATTERN = /(?:^|[^\w$])\$([A-Za-z][A-Za-z0-9_]{0,11})(?![\w])/g;
+// Whole base58 runs of public key length, also inside URLs such as pump.fun links. Longer runs such
+// as transaction signatures are not sliced into address-length pieces
+const BASE58_PATTERN = /(?<![1-9A-HJ-NP-Za-km-z])[1-9A-HJ-NP-Za-km-z]{32,44}(?![1-9A-HJ-NP-Za-km-z])/g;
+
+/** Extracts cashtags and Solana addresses from tweet text, in order of appearance. */
+export function extractTokens(text: string = ''): ExtractedTokens {
+  const cashtags = [...text.matchAll(CASHTAG_PATTERN)].map(match => match[1].toUpperCase());
+  const mints = [...text.matchAll(BASE58_PATTERN)]
+    .map(match => match[0])
+    .filter(isSolanaAddress);
+
+  return { cashtags: [...new Set(cashtags)], mints: [...new Set(mints)] };
+}
+
+export function isSolanaAddress(candidate: string): boolean {
+  try {
+    // Round-trip so strings with leading `1`s or wrong lengths are rejected
+    return new PublicKey(candidate).toBase58() === candidate;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,78 @@
+import { AnalyzedTweet } from './tweetAnalyzer';
+import { TokenInfo } from './tokenEnricher';
+import { scoreTokenRisk, TokenRisk } from './riskScorer';
+
+// Signals of one batch grouped by the token they mention
+export interface TokenSignal {
+  key: string; // Mint address, or `$TICKER` when no address was mentioned
+  mint?: string;
+  symbols: string[]; // Cashtags seen alongside the token
+  tweetIds: string[];
+  mentions: number;
+  uniqueAuthors: number;
+  averageScore: number;
+  averageCredibility: number;
+  sentimentDistribution: Record<string, number>;
+  info?: TokenInfo; // On-chain data, set for mints that could be enriched
+  risk?: TokenRisk;
+}
+
+/**
+ * Keys a tweet's tokens. Addresses take precedence; a cashtag is folded
+ * into the address when the tweet mentions exactly one of each, which is
+ * how launch tweets usually read (`$TICKER ... CA: <mint>`).
+ */
+export function tokenKeys(tweet: AnalyzedTweet): { key: string; mint?: string; symbols: string[] }[] {
+  const { cashtags = [], mints = [] } = tweet.tokens ?? {};
+
+  if (mints.length > 0) {
+    const symbols = mints.length === 1 ? cashtags : [];
+    const keys = mints.map(mint => ({ key: mint, mint, symbols }));
+    return mints.length === 1 ? keys : [...keys, ...cashtags.map(tag => ({ key: `$${tag}`, symbols: [tag] }))];
+  }
+  return cashtags.map(tag => ({ key: `$${tag}`, symbols: [tag] }));
+}
+
+/**
+ * Groups tweets per token mentioned, most mentioned first. Addresses that
+ * are not mints (`infos` has no entry) are dropped once enrichment ran.
+ */
+export function groupSignalsByToken(tweets: AnalyzedTweet[], infos?: Map<string, TokenInfo>): TokenSignal[] {
+  const groups = new Map<string, { mint?: string; symbols: Set<string>; tweets: AnalyzedTweet[] }>();
+
+  for (const tweet of tweets) {
+    for (const { key, mint, symbols } of tokenKeys(tweet)) {
+      if (mint && infos && !infos.has(mint)) {
+        continue;
+      }
+      const group = groups.get(key) ?? { mint, symbols: new Set<string>(), tweets: [] };
+      symbols.forEach(symbol => group.symbols.add(symbol));
+      group.tweets.push(tweet);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, { mint, symbols, tweets: grouped }]) => ({
+      key,
+      mint,
+      symbols: [...symbols],
+      tweetIds: grouped.map(tweet => tweet.id),
+      mentions: grouped.length,
+      uniqueAuthors: new Set(grouped.map(tweet => tweet.userId ?? tweet.username)).size,
+      averageScore: average(grouped.map(tweet => tweet.analysis.score)),
+      averageCredibility: average(grouped.map(tweet => tweet.analysis.credibilityScore)),
+      sentimentDistribution: grouped.reduce((acc, tweet) => {
+        acc[tweet.analysis.sentiment] = (acc[tweet.analysis.sentiment] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      info: mint ? infos?.get(mint) : undefined,
+      risk: mint && infos?.has(mint) ? scoreTokenRisk(infos.get(mint)) : undefined,
+    }))
+    .sort((a, b) => b.mentions - a.mentions || b.averageScore - a.averageScore);
+}
+
+/** Mean of the values, 0 when there are none. */
+export function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((acc, value) => acc + value, 0) / values.length : 0;
+}
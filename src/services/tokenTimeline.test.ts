@@ -0,0 +1,137 @@
+import { SentimentUpdate } from './sentimentStore';
+
+// In-memory stand-ins for the two models the timeline writes
+jest.mock('../models/TokenSignalMention', () => {
+  const mentions = new Set<string>();
+  return {
+    __esModule: true,
+    mentions,
+    default: {
+      updateOne: async ({ key, windowSize, tweetId }) => {
+        const id = `${key}:${windowSize}:${tweetId}`;
+        const upsertedCount = mentions.has(id) ? 0 : 1;
+        mentions.add(id);
+        return { upsertedCount };
+      },
+    },
+  };
+});
+
+jest.mock('../models/TokenSignalWindow', () => {
+  const windows: any[] = [];
+  const matches = (window: any, filter: any) =>
+    window.key === filter.key &&
+    window.windowSize === filter.windowSize &&
+    (filter.windowStart.$in
+      ? filter.windowStart.$in.some((start: Date) => start.getTime() === window.windowStart.getTime())
+      : window.windowStart.getTime() === new Date(filter.windowStart).getTime());
+
+  class TokenSignalWindow {
+    static windows = windows;
+    symbols: string[] = [];
+    tweetIds: string[] = [];
+    batchIds: string[] = [];
+    authors: string[] = [];
+    scoreSum = 0;
+    credibilitySum = 0;
+    accelerating = false;
+    windowStart: Date;
+
+    constructor(fields: any) {
+      Object.assign(this, fields);
+      this.windowStart = new Date(fields.windowStart);
+    }
+
+    static async findOne(filter: any) {
+      return windows.find(window => matches(window, filter)) ?? null;
+    }
+
+    static async find(filter: any) {
+      return windows.filter(window => matches(window, filter));
+    }
+
+    async save() {
+      if (!windows.includes(this)) windows.push(this);
+      return this;
+    }
+  }
+
+  return { __esModule: true, default: TokenSignalWindow };
+});
+
+import { TokenTimeline } from './tokenTimeline';
+
+const { mentions } = jest.requireMock('../models/TokenSignalMention');
+const { windows } = jest.requireMock('../models/TokenSignalWindow').default;
+
+const HOUR = 3600 * 1000;
+const START = Date.parse('2025-01-01T00:00:00Z');
+const MINT = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+
+const tweet = (id: string, postedAt: number) => ({
+  id,
+  userId: `author-${id}`,
+  timeParsed: new Date(postedAt),
+  analysis: { score: 0.8, credibilityScore: 0.5 },
+});
+
+function batch(timestamp: number, tweets: ReturnType<typeof tweet>[]): SentimentUpdate {
+  return {
+    timestamp,
+    metadata: { batchId: String(timestamp) },
+    tokens: [{ key: MINT, mint: MINT, symbols: ['WIF'], tweetIds: tweets.map(t => t.id) }],
+    tweets,
+  } as unknown as SentimentUpdate;
+}
+
+const windowAt = (start: number) => windows.find(window => window.windowStart.getTime() === start);
+
+describe('TokenTimeline.recordBatch', () => {
+  beforeEach(() => {
+    mentions.clear();
+    windows.length = 0;
+  });
+
+  it('buckets tweets by when they were posted', async () => {
+    await TokenTimeline.getInstance().recordBatch(batch(START + 2 * HOUR, [
+      tweet('1', START + 10 * 60 * 1000),
+      tweet('2', START + HOUR + 10 * 60 * 1000),
+    ]));
+
+    expect(windowAt(START).mentions).toBe(1);
+    expect(windowAt(START + HOUR).mentions).toBe(1);
+  });
+
+  it('counts a tweet found again in a later window only once', async () => {
+    const timeline = TokenTimeline.getInstance();
+    const tweets = [tweet('1', START), tweet('2', START), tweet('3', START)];
+    await timeline.recordBatch(batch(START + 5 * 60 * 1000, tweets));
+    const started = await timeline.recordBatch(batch(START + HOUR + 5 * 60 * 1000, tweets));
+
+    expect(windows).toHaveLength(1);
+    expect(windowAt(START).mentions).toBe(3);
+    expect(started).toEqual([]);
+  });
+
+  it('flags a window whose mentions doubled', async () => {
+    const timeline = TokenTimeline.getInstance();
+    await timeline.recordBatch(batch(START + HOUR, [tweet('1', START), tweet('2', START)]));
+    const started = await timeline.recordBatch(batch(START + 2 * HOUR, [
+      tweet('3', START + HOUR), tweet('4', START + HOUR), tweet('5', START + HOUR), tweet('6', START + HOUR),
+    ]));
+
+    expect(started).toEqual([windowAt(START + HOUR)]);
+    expect(windowAt(START + HOUR).mentionsRatio).toBe(2);
+  });
+
+  it('updates the following window when a late tweet lands before it', async () => {
+    const timeline = TokenTimeline.getInstance();
+    await timeline.recordBatch(batch(START + 2 * HOUR, [
+      tweet('1', START), tweet('2', START + HOUR), tweet('3', START + HOUR),
+    ]));
+    await timeline.recordBatch(batch(START + 3 * HOUR, [tweet('4', START)]));
+
+    expect(windowAt(START + HOUR).previousMentions).toBe(2);
+    expect(windowAt(START + HOUR).mentionsRatio).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import { FilterQuery } from 'mongoose';
+import TokenSignalMention from '../models/TokenSignalMention';
+import TokenSignalWindow, { ITokenSignalWindow } from '../models/TokenSignalWindow';
+import { SentimentUpdate } from './sentimentStore';
+import { isSolanaAddress } from './tokenExtractor';
+import {
+  SIGNAL_ACCELERATION_MIN_MENTIONS,
+  SIGNAL_ACCELERATION_RATIO,
+  SIGNAL_RETENTION,
+  SIGNAL_WINDOW,
+} from '../settings';
+
+/** Whether a window grew enough over the previous one to count as heating up. */
+export function isAccelerating(mentions: number, previousMentions: number): boolean {
+  if (mentions < SIGNAL_ACCELERATION_MIN_MENTIONS) {
+    return false;
+  }
+  return previousMentions === 0 || mentions / previousMentions >= SIGNAL_ACCELERATION_RATIO;
+}
+
+/** Normalizes a token key from a URL: mint addresses as-is, tickers as `$TICKER`. */
+export function normalizeTokenKey(token: string): string {
+  return isSolanaAddress(token) ? token : `$${token.replace(/^\$/, '').toUpperCase()}`;
+}
+
+/**
+ * Aggregates the per-token signals of every batch into fixed time windows
+ * of `SIGNAL_WINDOW` seconds, by when each tweet was posted: mentions, unique authors, average score and
+ * credibility. A window is flagged as accelerating when its mentions reach
+ * `SIGNAL_ACCELERATION_RATIO` times those of the previous window.
+ */
+export class TokenTimeline {
+  private static instance: TokenTimeline;
+
+  private constructor() {}
+
+  public static getInstance(): TokenTimeline {
+    if (!TokenTimeline.instance) {
+      TokenTimeline.instance = new TokenTimeline();
+    }
+    return TokenTimeline.instance;
+  }
+
+  /**
+   * Adds a batch to the windows its tweets were posted in. Each tweet counts
+   * once per token, however many batches find it again. Returns the windows
+   * that started accelerating.
+   */
+  async recordBatch(update: SentimentUpdate): Promise<ITokenSignalWindow[]> {
+    const tweetsById = new Map(update.tweets.map(tweet => [tweet.id, tweet]));
+    const oldest = update.timestamp - SIGNAL_RETENTION * 1000;
+    const started: ITokenSignalWindow[] = [];
+
+    for (const signal of update.tokens) {
+      // Tweets not counted for this token yet, grouped by the window they were posted in
+      const byWindow = new Map<number, SentimentUpdate['tweets']>();
+      for (const tweet of signal.tweetIds.map(id => tweetsById.get(id)).filter(Boolean)) {
+        const postedAt = this.postedAt(tweet, update.timestamp);
+        if (postedAt < oldest) {
+          continue;
+        }
+        const windowStart = this.windowStart(postedAt);
+        if (await this.claimMention(signal.key, tweet.id, windowStart)) {
+          byWindow.set(windowStart.getTime(), [...(byWindow.get(windowStart.getTime()) ?? []), tweet]);
+        }
+      }
+
+      const changed: ITokenSignalWindow[] = [];
+      for (const [time, tweets] of [...byWindow.entries()].sort(([a], [b]) => a - b)) {
+        const windowStart = new Date(time);
+        const window = await TokenSignalWindow.findOne({ key: signal.key, windowSize: SIGNAL_WINDOW, windowStart })
+          ?? new TokenSignalWindow({ key: signal.key, mint: signal.mint, windowStart, windowSize: SIGNAL_WINDOW });
+        const authors = new Set([...window.authors, ...tweets.map(tweet => tweet.userId ?? tweet.username)]);
+
+        window.symbols = [...new Set([...window.symbols, ...signal.symbols])];
+        window.tweetIds = [...window.tweetIds, ...tweets.map(tweet => tweet.id)];
+        window.batchIds = [...new Set([...window.batchIds, update.metadata.batchId])];
+        window.mentions = window.tweetIds.length;
+        window.authors = [...authors];
+        window.uniqueAuthors = authors.size;
+        window.scoreSum += tweets.reduce((acc, tweet) => acc + tweet.analysis.score, 0);
+        window.credibilitySum += tweets.reduce((acc, tweet) => acc + tweet.analysis.credibilityScore, 0);
+        window.averageScore = window.mentions > 0 ? window.scoreSum / window.mentions : 0;
+        window.averageCredibility = window.mentions > 0 ? window.credibilitySum / window.mentions : 0;
+        changed.push(window);
+      }
+
+      // A late tweet also changes the growth of the window after its own
+      const following = await TokenSignalWindow.find({
+        key: signal.key,
+        windowSize: SIGNAL_WINDOW,
+        windowStart: { $in: changed.map(window => new Date(window.windowStart.getTime() + SIGNAL_WINDOW * 1000)) },
+      });
+      const affected = [...changed, ...following.filter(window => !byWindow.has(window.windowStart.getTime()))]
+        .sort((a, b) => a.windowStart.getTime() - b.windowStart.getTime());
+
+      for (const window of affected) {
+        if (await this.updateAcceleration(window, update.timestamp)) {
+          started.push(window);
+        }
+        await window.save();
+      }
+    }
+
+    return started;
+  }
+
+  /** Windows of one token, newest first. */
+  async series(key: string, query: { since?: Date; until?: Date; limit?: number } = {}): Promise<ITokenSignalWindow[]> {
+    const filter: FilterQuery<ITokenSignalWindow> = { key, windowSize: SIGNAL_WINDOW };
+    if (query.since || query.until) {
+      filter.windowStart = {
+        ...(query.since ? { $gte: query.since } : {}),
+        ...(query.until ? { $lt: query.until } : {}),
+      };
+    }
+
+    return TokenSignalWindow.find(filter, { tweetIds: 0, authors: 0 })
+      .sort({ windowStart: -1 })
+      .limit(Math.min(500, Math.max(1, query.limit ?? 48)));
+  }
+
+  /**
+   * Tokens accelerating in the current or previous window, fastest growing
+   * first. The previous window is included so a token does not vanish the
+   * moment a new window starts.
+   */
+  async heatingUp(limit: number = 20, now: number = Date.now()): Promise<ITokenSignalWindow[]> {
+    const since = new Date(this.windowStart(now).getTime() - SIGNAL_WINDOW * 1000);
+    const windows = await TokenSignalWindow.find(
+      { windowSize: SIGNAL_WINDOW, windowStart: { $gte: since }, accelerating: true },
+      { tweetIds: 0, authors: 0 },
+    ).sort({ windowStart: -1 });
+
+    // Keep the latest window per token
+    const latest = new Map<string, ITokenSignalWindow>();
+    windows.forEach(window => latest.has(window.key) || latest.set(window.key, window));
+
+    return [...latest.values()]
+      // Tokens new to the feed have no ratio and rank first
+      .sort((a, b) => (b.mentionsRatio ?? Number.MAX_VALUE) - (a.mentionsRatio ?? Number.MAX_VALUE) || b.mentions - a.mentions)
+      .slice(0, limit);
+  }
+
+  /**
+   * Compares a window with the one before it. Returns true when the window
+   * starts accelerating.
+   */
+  private async updateAcceleration(window: ITokenSignalWindow, now: number): Promise<boolean> {
+    const previous = await TokenSignalWindow.findOne({
+      key: window.key,
+      windowSize: SIGNAL_WINDOW,
+      windowStart: new Date(window.windowStart.getTime() - SIGNAL_WINDOW * 1000),
+    });
+    const wasAccelerating = window.accelerating;
+    window.previousMentions = previous?.mentions ?? 0;
+    window.mentionsRatio = window.previousMentions > 0 ? window.mentions / window.previousMentions : null;
+    window.accelerating = isAccelerating(window.mentions, window.previousMentions);
+    if (window.accelerating && !wasAccelerating) {
+      window.acceleratingSince = new Date(now);
+      return true;
+    }
+    return false;
+  }
+
+  /** Records that a tweet mentioned the token. Returns false if it was already counted. */
+  private async claimMention(key: string, tweetId: string, windowStart: Date): Promise<boolean> {
+    const result = await TokenSignalMention.updateOne(
+      { key, windowSize: SIGNAL_WINDOW, tweetId },
+      { $setOnInsert: { windowStart } },
+      { upsert: true },
+    );
+    return result.upsertedCount > 0;
+  }
+
+  // When the tweet was posted, falling back to the batch time
+  private postedAt(tweet: SentimentUpdate['tweets'][number], fallback: number): number {
+    if (tweet.timeParsed) {
+      return new Date(tweet.timeParsed).getTime();
+    }
+    return tweet.timestamp ? tweet.timestamp * 1000 : fallback;
+  }
+
+  private windowStart(timestamp: number): Date {
+    const size = SIGNAL_WINDOW * 1000;
+    return new Date(Math.floor(timestamp / size) * size);
+  }
+}
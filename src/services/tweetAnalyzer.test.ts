@@ -0,0 +1,133 @@
+import { Tweet } from 'agent-twitter-client';
+import { AnalysisProvider, RuleBasedAnalysisProvider } from './analysisProvider';
+
+const cache = new Map<string, string>();
+const counters = new Map<string, Record<string, string>>();
+jest.mock('../redis/config', () => ({
+  redis: {
+    get: async (key: string) => cache.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => cache.set(key, value),
+    hincrby: async (key: string, field: string, by: number) => {
+      const hash = counters.get(key) ?? {};
+      hash[field] = String(Number(hash[field] ?? 0) + by);
+      counters.set(key, hash);
+    },
+    hgetall: async (key: string) => counters.get(key) ?? {},
+  },
+}));
+jest.mock('../settings', () => ({ ...jest.requireActual('../settings'), ANALYSIS_PROVIDER: 'rule-based' }));
+
+import { getAnalysisRejections, TweetAnalyzer } from './tweetAnalyzer';
+
+const tweet = (id: string, text: string) => ({ id, text, likes: 10, retweets: 2, views: 500 } as Tweet);
+
+describe('TweetAnalyzer with the rule-based provider', () => {
+  const analyzer = TweetAnalyzer.getInstance();
+
+  beforeEach(() => {
+    cache.clear();
+    analyzer.setProvider(new RuleBasedAnalysisProvider());
+  });
+
+  it('scores tweets deterministically and records the provider', async () => {
+    const [analyzed] = await analyzer.analyzeTweets([
+      tweet('1', 'Stealth launch of $WIF, LP locked and renounced'),
+    ]);
+
+    expect(analyzed.analysis).toMatchObject({
+      sentiment: 'positive',
+      score: 0.9,
+      topics: ['WIF', 'launch', 'stealth', 'locked', 'renounced'],
+      provider: 'rule-based',
+      model: 'keywords',
+      promptVersion: 'v1',
+    });
+    expect(analyzed.tokens.cashtags).toEqual(['WIF']);
+  });
+
+  it('filters out low scoring tweets', async () => {
+    const analyzed = await analyzer.analyzeTweets([
+      tweet('1', 'Total rug, scam and honeypot, avoid'),
+      tweet('2', 'gm'),
+    ]);
+
+    expect(analyzed.map(t => t.id)).toEqual(['2']);
+    expect(analyzed[0].analysis.sentiment).toBe('neutral');
+  });
+
+  it('uses a provider set with setProvider and caches per provider', async () => {
+    const provider: AnalysisProvider = {
+      name: 'stub',
+      model: 'fixed',
+      analyze: jest.fn(async () => JSON.stringify({ sentiment: 'negative', score: 0.4, topics: [], summary: 'stub' })),
+    };
+    analyzer.setProvider(provider);
+
+    await analyzer.analyzeTweets([tweet('1', 'anything')]);
+    const [analyzed] = await analyzer.analyzeTweets([tweet('1', 'anything')]);
+
+    expect(provider.analyze).toHaveBeenCalledTimes(1);
+    expect(analyzed.analysis).toMatchObject({ sentiment: 'negative', summary: 'stub', provider: 'stub', model: 'fixed' });
+    expect([...cache.keys()]).toEqual(['tweet_analysis:stub:fixed:v1:1']);
+  });
+});
+
+describe('TweetAnalyzer output validation', () => {
+  const analyzer = TweetAnalyzer.getInstance();
+  const stub = (...responses: string[]): AnalysisProvider => {
+    const analyze = jest.fn();
+    responses.forEach(response => analyze.mockResolvedValueOnce(response));
+    return { name: 'stub', model: 'fixed', analyze };
+  };
+
+  beforeEach(() => {
+    cache.clear();
+    counters.clear();
+  });
+
+  it('repairs an invalid response with one more round-trip', async () => {
+    const provider = stub(
+      JSON.stringify({ sentiment: 'great', score: 'high' }),
+      JSON.stringify({ sentiment: 'positive', score: 0.7, topics: ['launch'], summary: 'fixed' }),
+    );
+    analyzer.setProvider(provider);
+
+    const [analyzed] = await analyzer.analyzeTweets([tweet('1', 'launch')]);
+
+    expect(analyzed.analysis).toMatchObject({ sentiment: 'positive', score: 0.7, provider: 'stub' });
+    const repairMessages = (provider.analyze as jest.Mock).mock.calls[1][1].messages;
+    expect(repairMessages[repairMessages.length - 1].content).toContain('sentiment must be one of');
+    expect(await getAnalysisRejections()).toEqual({ rejected: { 'stub:fixed': 1 }, fallbacks: {} });
+  });
+
+  it('falls back to the rule-based classification when the repair is rejected too', async () => {
+    const provider = stub('not json', JSON.stringify({ sentiment: 'positive' }));
+    analyzer.setProvider(provider);
+
+    const [analyzed] = await analyzer.analyzeTweets([tweet('1', 'Stealth launch of $WIF')]);
+
+    expect(provider.analyze).toHaveBeenCalledTimes(2);
+    expect(analyzed.analysis).toMatchObject({ sentiment: 'positive', score: 0.7, provider: 'rule-based' });
+    expect(cache.size).toBe(0);
+    expect(await getAnalysisRejections()).toEqual({
+      rejected: { 'stub:fixed': 2 },
+      fallbacks: { 'stub:fixed': 1 },
+    });
+  });
+
+  it('falls back to the rule-based classification when the provider call fails', async () => {
+    const provider: AnalysisProvider = {
+      name: 'stub',
+      model: 'fixed',
+      analyze: jest.fn()
+        .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'neutral', score: 0.5, topics: [], summary: 'ok' })),
+    };
+    analyzer.setProvider(provider);
+
+    const analyzed = await analyzer.analyzeTweets([tweet('1', 'Stealth launch of $WIF'), tweet('2', 'gm')]);
+
+    expect(analyzed.map(item => item.analysis.provider)).toEqual(['rule-based', 'stub']);
+    expect(await getAnalysisRejections()).toEqual({ rejected: {}, fallbacks: { 'stub:fixed': 1 } });
+  });
+});
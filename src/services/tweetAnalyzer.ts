@@ -1,20 +1,34 @@
-import { OpenAI } from 'openai';
 import { Tweet } from 'agent-twitter-client';
 import { redis } from '../redis/config';
+import { ANALYSIS_PROMPT_VERSION } from '../settings';
+import { AnalysisProvider, ProviderAnalysis, RuleBasedAnalysisProvider, createAnalysisProvider } from './analysisProvider';
+import { ANALYSIS_PROMPTS, AnalysisPrompt, buildAnalysisPrompt, buildRepairPrompt } from './analysisPrompts';
+import { parseProviderAnalysis } from './analysisSchema';
+import { extractTokens, ExtractedTokens } from './tokenExtractor';
 
 export interface AnalyzedTweet extends Tweet {
+  tokens: ExtractedTokens; // Cashtags and addresses found in the text
   analysis: {
     sentiment: 'positive' | 'negative' | 'neutral';
     score: number;
     topics: string[];
     summary: string;
     credibilityScore: number;
+    riskScore?: number | null; // On-chain risk of the riskiest mint mentioned, null when none could be checked
+    riskReasons?: string[];
+    provider?: string; // Analysis provider and model that produced the analysis
+    model?: string;
+    promptVersion?: string;
   };
 }
 
+const ANALYSIS_REJECTED_KEY = 'analysis:rejected'; // Invalid responses per provider:model
+const ANALYSIS_FALLBACKS_KEY = 'analysis:fallbacks'; // Tweets classified by the fallback per provider:model
+
 export class TweetAnalyzer {
   private static instance: TweetAnalyzer;
-  private openai: OpenAI;
+  private provider: AnalysisProvider;
+  private readonly fallbackProvider = new RuleBasedAnalysisProvider();
   private readonly BATCH_SIZE = 10;
   private readonly CACHE_EXPIRY = 3600; // 1 hour
   private readonly credibilityWeights = {
@@ -25,10 +39,11 @@ export class TweetAnalyzer {
   };
 
   private constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is required');
+    // Checked here so a bad config fails at startup rather than on every tweet
+    if (!ANALYSIS_PROMPTS[ANALYSIS_PROMPT_VERSION]) {
+      throw new Error(`Unknown ANALYSIS_PROMPT_VERSION: ${ANALYSIS_PROMPT_VERSION}`);
     }
-    this.openai = new OpenAI();
+    this.provider = createAnalysisProvider();
   }
 
   public static getInstance(): TweetAnalyzer {
@@ -38,6 +53,11 @@ export class TweetAnalyzer {
     return TweetAnalyzer.instance;
   }
 
+  /** Replaces the analysis provider, e.g. with `RuleBasedAnalysisProvider`. */
+  public setProvider(provider: AnalysisProvider): void {
+    this.provider = provider;
+  }
+
   public async analyzeTweets(tweets: Tweet[]): Promise<AnalyzedTweet[]> {
     const results: AnalyzedTweet[] = [];
     
@@ -60,61 +80,88 @@ export class TweetAnalyzer {
   }
 
   private async getCachedAnalysis(tweet: Tweet): Promise<AnalyzedTweet> {
-    const cacheKey = `tweet_analysis:${tweet.id}`;
+    // Keyed by provider, model and prompt so switching any of them re-analyzes
+    const cacheKey = `tweet_analysis:${this.provider.name}:${this.provider.model}:${ANALYSIS_PROMPT_VERSION}:${tweet.id}`;
     
     // Try to get from cache
     const cached = await redis.get(cacheKey);
     if (cached) {
-      return { ...tweet, analysis: JSON.parse(cached) };
+      return { ...tweet, tokens: extractTokens(tweet.text), analysis: JSON.parse(cached) };
     }
 
-    // If not in cache, analyze and store
+    // If not in cache, analyze and store. Fallback results are not cached so the next cycle asks the model again
     const analyzed = await this.analyzeTweet(tweet);
-    await redis.setex(cacheKey, this.CACHE_EXPIRY, JSON.stringify(analyzed.analysis));
+    if (analyzed.analysis.provider === this.provider.name) {
+      await redis.setex(cacheKey, this.CACHE_EXPIRY, JSON.stringify(analyzed.analysis));
+    }
     return analyzed;
   }
 
   private async analyzeTweet(tweet: Tweet): Promise<AnalyzedTweet> {
-    const prompt = `
-      Analyze this crypto/memecoin related tweet: "${tweet.text}"
-      Provide a JSON response with:
-      - sentiment (positive/negative/neutral)
-      - score (0-1, where 1 indicates high potential alpha/opportunity and 0 indicates scam/negative)
-      - topics (array of relevant topics: e.g., presale, launch, airdrop, token, blockchain name, etc.)
-      - summary (brief summary focusing on key trading signals and timeline)
-
-      Example:
-      Tweet: "🚀 $WIF just launched stealth on SOL! LP locked for 1 year, ownership renounced, 1000x potential! CA: EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm"
-      Response:
-      {
-        "sentiment": "positive",
-        "score": 0.8,
-        "topics": ["stealth launch", "ETH", "PEPE", "memecoin", "liquidity locked", "ownership renounced"],
-        "summary": "New memecoin PEPE launched on Ethereum with security features in place. Stealth launch with locked liquidity suggests potential early opportunity."
-      }
-    `;
-
-    const response = await this.openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: "You are a tweet analyzer with a focus on crypto/memecoin related tweets. Your objective is to analyze the tweet and provide a detailed analysis of the sentiment, score, topics, and summary. You are also responsible for calculating the credibility score of the tweet based on the engagement metrics. Respond only with valid JSON." },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" }
-    });
-
-    const analysis = JSON.parse(response.choices[0].message.content);
+    const prompt = buildAnalysisPrompt(tweet, ANALYSIS_PROMPT_VERSION);
+    const { analysis, provider } = await this.classify(tweet, prompt);
     const credibilityScore = await this.calculateCredibilityScore(tweet);
 
     return {
       ...tweet,
+      tokens: extractTokens(tweet.text),
       analysis: {
         ...analysis,
         credibilityScore,
+        provider: provider.name,
+        model: provider.model,
+        promptVersion: prompt.version,
       },
     };
   }
 
+  /**
+   * Asks the provider for an analysis and validates it. An invalid response
+   * gets one repair round-trip; if that is rejected too, the tweet is
+   * classified by the rule-based fallback instead.
+   */
+  private async classify(
+    tweet: Tweet,
+    prompt: AnalysisPrompt,
+  ): Promise<{ analysis: ProviderAnalysis; provider: AnalysisProvider }> {
+    let repaired: ReturnType<typeof parseProviderAnalysis>;
+    try {
+      const response = await this.provider.analyze(tweet, prompt);
+      const first = parseProviderAnalysis(response);
+      if (first.analysis) {
+        return { analysis: first.analysis, provider: this.provider };
+      }
+      await this.incrementCounter(ANALYSIS_REJECTED_KEY);
+
+      repaired = parseProviderAnalysis(
+        await this.provider.analyze(tweet, buildRepairPrompt(prompt, response, first.errors))
+      );
+      if (repaired.analysis) {
+        return { analysis: repaired.analysis, provider: this.provider };
+      }
+      await this.incrementCounter(ANALYSIS_REJECTED_KEY);
+    } catch (error) {
+      // Network errors, timeouts and rate limits fall back too, so one tweet cannot fail the batch
+      return this.fallback(tweet, `failed: ${error?.message ?? error}`);
+    }
+
+    return this.fallback(tweet, `rejected after repair: ${repaired.errors.join('; ')}`);
+  }
+
+  private async fallback(tweet: Tweet, reason: string): Promise<{ analysis: ProviderAnalysis; provider: AnalysisProvider }> {
+    await this.incrementCounter(ANALYSIS_FALLBACKS_KEY);
+    console.warn(
+      `Analysis of tweet ${tweet.id} by ${this.provider.name}/${this.provider.model} ${reason}, ` +
+      `using the ${this.fallbackProvider.name} fallback`
+    );
+    const { analysis } = parseProviderAnalysis(await this.fallbackProvider.analyze(tweet));
+    return { analysis, provider: this.fallbackProvider };
+  }
+
+  private async incrementCounter(key: string): Promise<void> {
+    await redis.hincrby(key, `${this.provider.name}:${this.provider.model}`, 1);
+  }
+
   private async calculateCredibilityScore(tweet: Tweet): Promise<number> {
     // Calculate individual component scores
     const engagementScore = this.calculateEngagementScore(tweet);
@@ -262,4 +309,19 @@ export class TweetAnalyzer {
 
 // Export singleton instance method
 export const analyzeTweets = (tweets: Tweet[]) => 
-  TweetAnalyzer.getInstance().analyzeTweets(tweets);
\ No newline at end of file
+  TweetAnalyzer.getInstance().analyzeTweets(tweets);
+
+/**
+ * Responses rejected by validation and tweets that fell back to the
+ * rule-based provider, keyed by `provider:model`.
+ */
+export async function getAnalysisRejections(): Promise<{ rejected: Record<string, number>; fallbacks: Record<string, number> }> {
+  const [rejected, fallbacks] = await Promise.all([
+    redis.hgetall(ANALYSIS_REJECTED_KEY),
+    redis.hgetall(ANALYSIS_FALLBACKS_KEY),
+  ]);
+  const toNumbers = (counts: Record<string, string>) =>
+    Object.fromEntries(Object.entries(counts).map(([key, count]) => [key, Number(count)]));
+
+  return { rejected: toNumbers(rejected), fallbacks: toNumbers(fallbacks) };
+}
@@ -195,8 +195,8 @@ export class TweetScraper {
     return tweets;
   }
 
-  async getTweetsAndReplies(username: string): Promise<Tweet[]> {
-    const cacheKey = `tweets_replies:${username}`;
+  async getTweetsAndReplies(username: string, count?: number): Promise<Tweet[]> {
+    const cacheKey = `tweets_replies:${username}${count ? `:${count}` : ''}`;
     
     // Try to get from cache first
     const cachedTweets = await redis.get(cacheKey);
@@ -206,7 +206,7 @@ export class TweetScraper {
 
     // If not in cache, fetch from Twitter
     const tweets = [];
-    for await (const tweet of this.scraper.getTweetsAndReplies(username)) {
+    for await (const tweet of this.scraper.getTweetsAndReplies(username, count)) {
       tweets.push(tweet);
     }
 
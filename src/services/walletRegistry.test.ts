@@ -0,0 +1,39 @@
+import { IUser } from '../models/User';
+
+const linked = [
+  { telegramUserId: 1, address: 'linked-1' },
+  { telegramUserId: 2, address: 'linked-2' },
+];
+jest.mock('../models/Wallet', () => ({
+  __esModule: true,
+  default: {
+    find: jest.fn(({ telegramUserId }) => ({
+      sort: async () => linked.filter(wallet => telegramUserId.$in.includes(wallet.telegramUserId)),
+    })),
+  },
+}));
+
+import Wallet from '../models/Wallet';
+import { WalletRegistry } from './walletRegistry';
+
+const user = (_id: string, walletAddress: string, telegramUserId?: number) =>
+  ({ _id, walletAddress, telegramUserId } as unknown as IUser);
+
+describe('WalletRegistry.walletsByUser', () => {
+  it('keeps users without a Telegram ID apart', async () => {
+    const users = [
+      user('a', 'primary-a'),
+      user('b', 'primary-b'),
+      user('c', 'primary-c', 1),
+    ];
+
+    const wallets = await WalletRegistry.getInstance().walletsByUser(users);
+
+    expect(Wallet.find).toHaveBeenCalledWith({ telegramUserId: { $in: [1] } });
+    expect(wallets).toEqual(new Map([
+      ['a', ['primary-a']],
+      ['b', ['primary-b']],
+      ['c', ['primary-c', 'linked-1']],
+    ]));
+  });
+});
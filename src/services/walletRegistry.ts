@@ -0,0 +1,124 @@
+import User, { IUser } from '../models/User';
+import Wallet from '../models/Wallet';
+
+/** Raised when a wallet already backs a different Telegram account. */
+export class WalletInUseError extends Error {
+  constructor(address: string) {
+    super(`Wallet ${address} is already linked to another account`);
+  }
+}
+
+/**
+ * Keeps track of every wallet attached to a Telegram user: the primary one
+ * set by `/api/connect-wallet` and any extra linked wallets. Each address can
+ * back a single Telegram account, so one bag cannot admit several members.
+ */
+export class WalletRegistry {
+  private static instance: WalletRegistry;
+
+  private constructor() {}
+
+  public static getInstance(): WalletRegistry {
+    if (!WalletRegistry.instance) {
+      WalletRegistry.instance = new WalletRegistry();
+    }
+    return WalletRegistry.instance;
+  }
+
+  /** Throws `WalletInUseError` if `address` belongs to another Telegram user. */
+  async assertAvailable(address: string, telegramUserId: number): Promise<void> {
+    const [wallet, user] = await Promise.all([
+      Wallet.findOne({ address }),
+      User.findOne({ walletAddress: address }),
+    ]);
+
+    if ((wallet && wallet.telegramUserId !== telegramUserId) ||
+        (user && user.telegramUserId !== telegramUserId)) {
+      throw new WalletInUseError(address);
+    }
+  }
+
+  /** Finds the user a wallet belongs to, whether primary or linked. */
+  async findOwner(address: string): Promise<IUser | null> {
+    const user = await User.findOne({ walletAddress: address });
+    if (user) {
+      return user;
+    }
+
+    const wallet = await Wallet.findOne({ address });
+    return wallet ? User.findOne({ telegramUserId: wallet.telegramUserId }) : null;
+  }
+
+  /**
+   * Every wallet of the user, primary first. Users connected before
+   * start-check have no Telegram ID and so no linked wallets.
+   */
+  async walletsFor(user: IUser): Promise<string[]> {
+    if (user.telegramUserId == null) {
+      return this.withPrimary(user, []);
+    }
+    const linked = await Wallet.find({ telegramUserId: user.telegramUserId }).sort({ linkedAt: 1 });
+    return this.withPrimary(user, linked.map(wallet => wallet.address));
+  }
+
+  /** Every wallet of each user, keyed by the user's document ID. */
+  async walletsByUser(users: IUser[]): Promise<Map<string, string[]>> {
+    const telegramUserIds = users.map(user => user.telegramUserId).filter(id => id != null);
+    const linked = await Wallet.find({ telegramUserId: { $in: telegramUserIds } }).sort({ linkedAt: 1 });
+
+    const byTelegramUser = new Map<number, string[]>();
+    for (const wallet of linked) {
+      byTelegramUser.set(wallet.telegramUserId, [...(byTelegramUser.get(wallet.telegramUserId) ?? []), wallet.address]);
+    }
+
+    return new Map(users.map(user => [
+      String(user._id),
+      this.withPrimary(user, user.telegramUserId == null ? [] : byTelegramUser.get(user.telegramUserId) ?? []),
+    ]));
+  }
+
+  /** Users owning any of `addresses`, through either their primary or a linked wallet. */
+  async findOwners(addresses: string[]): Promise<IUser[]> {
+    const linked = await Wallet.find({ address: { $in: addresses } });
+    return User.find({
+      $or: [
+        { walletAddress: { $in: addresses } },
+        { telegramUserId: { $in: linked.map(wallet => wallet.telegramUserId) } },
+      ],
+    });
+  }
+
+  /**
+   * Records `address` as the user's primary wallet. A previous primary
+   * wallet is released, as `/api/connect-wallet` replaces it.
+   */
+  async setPrimary(user: IUser, address: string): Promise<void> {
+    await this.assertAvailable(address, user.telegramUserId);
+    await Wallet.deleteMany({ telegramUserId: user.telegramUserId, isPrimary: true, address: { $ne: address } });
+    await Wallet.updateOne(
+      { address },
+      { $set: { telegramUserId: user.telegramUserId, isPrimary: true } },
+      { upsert: true },
+    );
+  }
+
+  async link(user: IUser, address: string, signature: string): Promise<void> {
+    await this.assertAvailable(address, user.telegramUserId);
+    await Wallet.updateOne(
+      { address },
+      { $setOnInsert: { telegramUserId: user.telegramUserId, isPrimary: false, signature, linkedAt: new Date() } },
+      { upsert: true },
+    );
+  }
+
+  /** Removes a linked wallet. Returns false if it is not a linked wallet of the user. */
+  async unlink(user: IUser, address: string): Promise<boolean> {
+    const result = await Wallet.deleteOne({ address, telegramUserId: user.telegramUserId, isPrimary: false });
+    return result.deletedCount > 0;
+  }
+
+  private withPrimary(user: IUser, addresses: string[]): string[] {
+    const wallets = user.walletAddress ? [user.walletAddress, ...addresses] : addresses;
+    return [...new Set(wallets)];
+  }
+}
@@ -1,3 +1,69 @@
 export const SOLANA_RPC = process.env.SOLANA_RPC || 'https://api.mainnet-beta.solana.com';
+export const SOLANA_WS = process.env.SOLANA_WS || undefined; // Websocket endpoint, derived from SOLANA_RPC if unset
 export const TOKEN_MINT = process.env.TOKEN_MINT!; // Your SPL token mint address
-export const MIN_BALANCE = process.env.MIN_BALANCE || '1'; // Minimum tokens required
\ No newline at end of file
+export const MIN_BALANCE = process.env.MIN_BALANCE || '1'; // Minimum tokens required
+
+// Auth challenge settings
+export const AUTH_DOMAIN = process.env.AUTH_DOMAIN || 'backdoor.wtf'; // Domain bound into signed messages
+export const AUTH_NONCE_TTL = Number(process.env.AUTH_NONCE_TTL || 300); // Seconds a challenge nonce stays valid
+export const AUTH_URI = process.env.AUTH_URI || `https://${AUTH_DOMAIN}`; // URI expected in Sign-In-With-Solana messages
+export const SIWS_CHAIN_ID = process.env.SIWS_CHAIN_ID || 'mainnet'; // Chain ID expected in Sign-In-With-Solana messages
+export const SIWS_STATEMENT = process.env.SIWS_STATEMENT || 'Sign in to verify your wallet. This request will not trigger a transaction or cost any fees.';
+export const AUTH_LEGACY_JSON_MESSAGES = process.env.AUTH_LEGACY_JSON_MESSAGES !== 'false'; // Accept the base58 JSON message format
+
+// Session settings
+export const SESSION_SECRET = process.env.SESSION_SECRET; // HMAC secret used to sign session tokens
+export const SESSION_TTL = Number(process.env.SESSION_TTL || 900); // Access token lifetime in seconds
+export const REFRESH_TOKEN_TTL = Number(process.env.REFRESH_TOKEN_TTL || 7 * 24 * 3600); // Refresh token lifetime in seconds
+
+// Telegram settings
+export const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN; // Bot token used to verify Mini App init data
+export const TELEGRAM_INIT_DATA_TTL = Number(process.env.TELEGRAM_INIT_DATA_TTL || 3600); // Seconds Mini App init data stays valid after auth_date
+export const TELEGRAM_CHAT_ID = process.env.TELEGRAM_CHAT_ID; // Group invites are minted for when a tier has no chat of its own
+export const INVITE_TTL = Number(process.env.INVITE_TTL || 3600); // Seconds an invite link stays valid
+export const INVITE_MEMBER_LIMIT = Number(process.env.INVITE_MEMBER_LIMIT || 1); // Users that can join through one invite link
+
+// Balance sweep settings
+export const SWEEP_CONCURRENCY = Number(process.env.SWEEP_CONCURRENCY || 4); // Parallel RPC requests during a sweep
+export const RPC_MAX_RETRIES = Number(process.env.RPC_MAX_RETRIES || 5); // Retries on RPC rate-limit errors
+
+// Balance subscription settings
+export const BALANCE_SUBSCRIPTIONS = process.env.BALANCE_SUBSCRIPTIONS === 'true'; // Re-check wallets on token account changes
+export const SUBSCRIPTION_HEARTBEAT_TIMEOUT = Number(process.env.SUBSCRIPTION_HEARTBEAT_TIMEOUT || 30); // Seconds without slot updates before the websocket is considered down
+export const SUBSCRIPTION_FALLBACK_POLL_INTERVAL = Number(process.env.SUBSCRIPTION_FALLBACK_POLL_INTERVAL || 60); // Seconds between sweeps while the websocket is down
+
+// Balance history settings
+export const BALANCE_HISTORY_RETENTION = Number(process.env.BALANCE_HISTORY_RETENTION || 90 * 24 * 3600); // Seconds balance history entries are kept
+
+// Tweet analysis settings
+export const ANALYSIS_PROVIDER = process.env.ANALYSIS_PROVIDER || 'openai'; // openai, openai-compatible or rule-based
+export const ANALYSIS_MODEL = process.env.ANALYSIS_MODEL || 'gpt-4o-mini'; // Chat model asked to analyze tweets
+export const ANALYSIS_TEMPERATURE = process.env.ANALYSIS_TEMPERATURE ? Number(process.env.ANALYSIS_TEMPERATURE) : undefined; // Unset keeps the model's default
+export const ANALYSIS_PROMPT_VERSION = process.env.ANALYSIS_PROMPT_VERSION || 'v1'; // Key into ANALYSIS_PROMPTS
+export const ANALYSIS_BASE_URL = process.env.ANALYSIS_BASE_URL; // Endpoint of the openai-compatible provider, e.g. http://localhost:11434/v1
+export const ANALYSIS_API_KEY = process.env.ANALYSIS_API_KEY || process.env.OPENAI_API_KEY; // API key sent to the provider
+export const ANALYSIS_JSON_MODE = process.env.ANALYSIS_JSON_MODE !== 'false'; // Request a JSON object response; disable for servers without response_format
+
+// Token enrichment settings
+export const TOKEN_INFO_CACHE_TTL = Number(process.env.TOKEN_INFO_CACHE_TTL || 600); // Seconds on-chain token info is cached
+export const TOKEN_TOP_HOLDERS = Number(process.env.TOKEN_TOP_HOLDERS || 10); // Largest accounts counted in the holder concentration
+
+// Risk scoring settings
+export const MAX_RISK_SCORE = Number(process.env.MAX_RISK_SCORE || 1); // Tweets about riskier tokens are not significant; 1 keeps them all
+export const RISK_CONCENTRATION_THRESHOLD = Number(process.env.RISK_CONCENTRATION_THRESHOLD || 0.5); // Top-holder share of the supply flagged as concentrated
+export const RISK_NEW_TOKEN_AGE = Number(process.env.RISK_NEW_TOKEN_AGE || 24 * 3600); // Seconds under which a mint is flagged as new
+
+// Token signal timeline settings
+export const SIGNAL_WINDOW = Number(process.env.SIGNAL_WINDOW || 3600); // Seconds per time-series window
+export const SIGNAL_ACCELERATION_RATIO = Number(process.env.SIGNAL_ACCELERATION_RATIO || 2); // Growth in mentions over the previous window that counts as accelerating
+export const SIGNAL_ACCELERATION_MIN_MENTIONS = Number(process.env.SIGNAL_ACCELERATION_MIN_MENTIONS || 3); // Mentions a window needs before it can accelerate
+export const SIGNAL_RETENTION = Number(process.env.SIGNAL_RETENTION || 30 * 24 * 3600); // Seconds windows are kept
+
+// Sentiment feed settings
+export const FEED_HOLDER_RECHECK = Number(process.env.FEED_HOLDER_RECHECK || 60); // Seconds before a connected client's holder status is checked again
+export const FEED_HEARTBEAT_INTERVAL = Number(process.env.FEED_HEARTBEAT_INTERVAL || 25); // Seconds between keep-alive messages
+
+// Revocation settings
+export const REVOKE_GRACE_PERIOD = Number(process.env.REVOKE_GRACE_PERIOD || 0); // Seconds a wallet may stay below requirements before losing its tier
+export const REVOKE_FAILED_CHECKS = Number(process.env.REVOKE_FAILED_CHECKS || 1); // Consecutive failing checks required before revoking
+export const REVOKE_HYSTERESIS = Number(process.env.REVOKE_HYSTERESIS || 0); // Fraction below a held tier's thresholds tolerated before it is lost, e.g. 0.05
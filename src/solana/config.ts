@@ -0,0 +1,23 @@
+import { Connection } from '@solana/web3.js';
+import { SOLANA_RPC, SOLANA_WS } from '../settings';
+
+export class SolanaClient {
+  private static instance: Connection;
+
+  private constructor() {}
+
+  public static getInstance(): Connection {
+    if (!SolanaClient.instance) {
+      if (!process.env.SOLANA_RPC) {
+        throw new Error('SOLANA_RPC environment variable is required');
+      }
+      // Rate limits are retried by withRpcBackoff so sweeps can count them
+      SolanaClient.instance = new Connection(SOLANA_RPC, {
+        commitment: 'confirmed',
+        disableRetryOnRateLimit: true,
+        wsEndpoint: SOLANA_WS,
+      });
+    }
+    return SolanaClient.instance;
+  }
+}
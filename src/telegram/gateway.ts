@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { TELEGRAM_BOT_TOKEN } from '../settings';
+
+export interface CreateInviteLinkOptions {
+  name?: string;
+  expireDate?: number; // Unix time the link stops working
+  memberLimit?: number; // Users that can join through the link
+}
+
+export interface ChatInviteLink {
+  inviteLink: string;
+  expireDate?: number;
+  memberLimit?: number;
+}
+
+/**
+ * The Telegram operations the server relies on. Kept behind an interface so
+ * the Bot API can be swapped for `InMemoryTelegramGateway` locally.
+ */
+export interface TelegramGateway {
+  createInviteLink(chatId: string, options: CreateInviteLinkOptions): Promise<ChatInviteLink>;
+  revokeInviteLink(chatId: string, inviteLink: string): Promise<void>;
+}
+
+/** Calls the Telegram Bot API with the bot token. */
+export class BotApiTelegramGateway implements TelegramGateway {
+  constructor(private readonly botToken: string) {}
+
+  async createInviteLink(chatId: string, options: CreateInviteLinkOptions): Promise<ChatInviteLink> {
+    const result = await this.call<{ invite_link: string; expire_date?: number; member_limit?: number }>(
+      'createChatInviteLink',
+      {
+        chat_id: chatId,
+        name: options.name,
+        expire_date: options.expireDate,
+        member_limit: options.memberLimit,
+      },
+    );
+    return { inviteLink: result.invite_link, expireDate: result.expire_date, memberLimit: result.member_limit };
+  }
+
+  async revokeInviteLink(chatId: string, inviteLink: string): Promise<void> {
+    await this.call('revokeChatInviteLink', { chat_id: chatId, invite_link: inviteLink });
+  }
+
+  private async call<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`https://api.telegram.org/bot${this.botToken}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    });
+
+    const body = await response.json() as { ok: boolean; result?: T; description?: string };
+    if (!body.ok) {
+      throw new Error(`Telegram ${method} failed: ${body.description ?? response.status}`);
+    }
+    return body.result as T;
+  }
+}
+
+/** Keeps invite links in memory, for local development and tests. */
+export class InMemoryTelegramGateway implements TelegramGateway {
+  readonly links = new Map<string, ChatInviteLink & { chatId: string; revoked: boolean }>();
+
+  async createInviteLink(chatId: string, options: CreateInviteLinkOptions): Promise<ChatInviteLink> {
+    const inviteLink = `https://t.me/+${crypto.randomBytes(12).toString('base64url')}`;
+    const link = { inviteLink, expireDate: options.expireDate, memberLimit: options.memberLimit };
+    this.links.set(inviteLink, { ...link, chatId, revoked: false });
+    return link;
+  }
+
+  async revokeInviteLink(chatId: string, inviteLink: string): Promise<void> {
+    const link = this.links.get(inviteLink);
+    if (!link || link.chatId !== chatId) {
+      throw new Error('Invite link not found');
+    }
+    link.revoked = true;
+  }
+}
+
+export class TelegramClient {
+  private static instance: TelegramGateway;
+
+  private constructor() {}
+
+  public static getInstance(): TelegramGateway {
+    if (!TelegramClient.instance) {
+      if (!TELEGRAM_BOT_TOKEN) {
+        throw new Error('TELEGRAM_BOT_TOKEN environment variable is required');
+      }
+      TelegramClient.instance = new BotApiTelegramGateway(TELEGRAM_BOT_TOKEN);
+    }
+    return TelegramClient.instance;
+  }
+
+  /** Replaces the gateway, e.g. with `InMemoryTelegramGateway`. */
+  public static setInstance(gateway: TelegramGateway): void {
+    TelegramClient.instance = gateway;
+  }
+}